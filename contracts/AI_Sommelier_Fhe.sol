@@ -1,65 +1,194 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint16, euint32, euint64, ebool, externalEuint8, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract AISommelierFHE is SepoliaConfig {
+    using FHE for euint8;
+    using FHE for euint16;
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant BATCH_OPERATOR_ROLE = keccak256("BATCH_OPERATOR_ROLE");
+    bytes32 public constant PROVIDER_ROLE = keccak256("PROVIDER_ROLE");
+    bytes32 public constant CATALOG_CURATOR_ROLE = keccak256("CATALOG_CURATOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
     address public owner;
-    mapping(address => bool) public isProvider;
+    address public pendingOwner;
+    mapping(bytes32 => mapping(address => bool)) private roles;
     bool public paused;
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
+    // findMyBestMatch runs a handful of FHE ops per active wine and exceeds the
+    // per-transaction HCU limit past 9 of them, so keep some headroom. Only
+    // active wines count; inactive ones are skipped without FHE work.
+    uint256 public constant MAX_CATALOG_SIZE = 8;
+    // Hard cap on a batch. One held open below the privacy threshold keeps
+    // taking notes past maxBatchNotes, but stops here rather than pooling every
+    // later note; submissions resume once the threshold is met or lowered.
+    uint256 public constant MAX_BATCH_NOTES = 256;
+    uint8 public constant PAIRING_DISHES = 8;
+    uint8 public constant MAX_PAIRING_WEIGHT = 10;
+
     uint256 public currentBatchId;
     mapping(uint256 => bool) public isBatchClosed;
+    mapping(uint256 => uint256) public batchOpenedAt;
+    uint256 public maxBatchNotes;    // Notes after which the batch rolls over, minBatchNotes to MAX_BATCH_NOTES
+    uint256 public maxBatchDuration; // 0 disables the time limit
+    uint256 public minBatchNotes;     // k-anonymity: notes required before a batch is aggregated
+    uint256 public minBatchProviders; // k-anonymity: distinct providers required, 0 disables
+    mapping(uint256 => uint256) public batchProviderCount;
+    mapping(uint256 => mapping(address => bool)) private hasSubmittedToBatch;
+    uint32 public noiseScale;                 // Upper bound of the random noise added per score, 0 disables
+    uint256 public batchDecryptionBudget;     // Max aggregate decryptions per batch
+    mapping(uint256 => uint256) public batchDecryptionCount;
 
     struct EncryptedWineNote {
-        euint32 wineType;       // Encrypted: e.g., 0: Red, 1: White, 2: Rose, 3: Sparkling
-        euint32 rating;         // Encrypted: 1-5 scale
-        euint32 foodPairingId;  // Encrypted: ID for food pairing
+        euint8 wineType;        // Encrypted: e.g., 0: Red, 1: White, 2: Rose, 3: Sparkling
+        euint8 rating;          // Encrypted: 1-100 scale
+        euint8 foodPairingId;   // Encrypted: ID for food pairing
         euint32 userId;         // Encrypted: User identifier
+        euint32 price;          // Encrypted: Bottle price in cents
+        euint8 tannins;         // Encrypted: 1-10 scale
+        euint8 acidity;         // Encrypted: 1-10 scale
+        euint8 region;          // Encrypted: Region index
     }
     mapping(uint256 => EncryptedWineNote[]) public batchNotes; // batchId => notes
+    mapping(uint256 => mapping(uint256 => address)) public noteSubmitter; // batchId => noteIndex => provider
+    mapping(uint256 => mapping(uint256 => ebool)) private noteRecommendations; // batchId => noteIndex => recommended
+    mapping(uint256 => euint32[4]) private batchScores; // batchId => encrypted summed rating per wine type
+
+    // Append-only registry over every submitted note, in submission order;
+    // a record id is its position and never changes. The submitter owns a
+    // record until they transfer it; a deleted record keeps its slot with no owner.
+    struct RecordRef {
+        uint256 batchId;
+        uint256 noteIndex;
+        address provider;
+        address owner;
+        uint256 timestamp;
+    }
+    RecordRef[] private records;
+    mapping(address => uint256[]) private recordsByOwner; // owner => record ids
+    mapping(uint256 => uint256) private recordOwnerIndex; // record id => position in recordsByOwner
+    mapping(uint256 => mapping(uint256 => uint256)) private noteRecordIds; // batchId => noteIndex => record id
+
+    struct WineRecord {
+        uint256 recordId;
+        uint256 batchId;
+        uint256 noteIndex;
+        address provider;
+        address owner;
+        uint256 timestamp;
+        EncryptedWineNote note;
+        ebool recommendation;
+    }
+
+    struct TasteProfile {
+        euint32[4] ratingSums;  // Encrypted: summed rating per wine type
+        euint32[4] counts;      // Encrypted: number of notes per wine type
+        euint32 tanninSum;      // Encrypted: summed tannins over all notes
+        euint32 aciditySum;     // Encrypted: summed acidity over all notes
+        euint32 priceSum;       // Encrypted: summed price in cents over all notes
+        euint8 topStyle;        // Encrypted: wine type with the best average rating
+        euint32 bestMatch;      // Encrypted: catalog index closest to the profile
+        euint8 dishPairing;     // Encrypted: wine type suggested for the last dish asked about
+        uint256 noteCount;
+    }
+    mapping(address => TasteProfile) private profiles;
+
+    struct CatalogWine {
+        string name;
+        uint8 wineType;         // 0: Red, 1: White, 2: Rose, 3: Sparkling
+        uint8 region;           // Region index
+        uint8 tannins;          // 1-10 scale
+        uint8 acidity;          // 1-10 scale
+        uint8 priceBand;        // 0: under $15, 1: $15-30, 2: $30-60, 3: over $60
+        bool active;
+    }
+    CatalogWine[] public catalog;
+    uint256 public activeCatalogWines;
+
+    // foodPairingId => compatibility weight (0-10) per wine type, same indices as wineType
+    mapping(uint8 => uint8[4]) private pairingWeights;
 
     struct DecryptionContext {
         uint256 batchId;
-        bytes32 stateHash;
         bool processed;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
+    mapping(uint256 => uint256[4]) private batchResults; // batchId => summed rating per wine type
+    mapping(uint256 => bool) public isBatchAnalyzed;
+
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferCanceled(address indexed previousOwner, address indexed canceledOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
     event ContractPaused(address indexed account);
     event ContractUnpaused(address indexed account);
     event CooldownSecondsSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
     event BatchOpened(uint256 batchId);
     event BatchClosed(uint256 batchId);
+    event BatchPolicySet(uint256 maxBatchNotes, uint256 maxBatchDuration);
+    event PrivacyThresholdSet(uint256 minBatchNotes, uint256 minBatchProviders);
+    event NoiseConfigSet(uint32 noiseScale, uint256 batchDecryptionBudget);
     event WineNoteSubmitted(address indexed provider, uint256 batchId, uint256 noteIndex);
     event RecommendationRequested(uint256 indexed requestId, uint256 batchId);
     event RecommendationCompleted(uint256 indexed requestId, uint256 batchId, uint256[] recommendationResults);
+    event WineNoteScored(address indexed provider, uint256 batchId, uint256 noteIndex);
+    event TopStyleComputed(address indexed user);
+    event CatalogWineAdded(uint256 indexed wineId);
+    event CatalogWineUpdated(uint256 indexed wineId);
+    event BestMatchComputed(address indexed user);
+    event PairingWeightsSet(uint8 indexed foodPairingId, uint8[4] weights);
+    event DishPaired(address indexed user);
+    event RecordCreated(uint256 indexed recordId, address indexed owner, uint256 batchId, uint256 noteIndex);
+    event RecordUpdated(uint256 indexed recordId, address indexed owner); // Scored, transferred or deleted (zero owner)
+    event RecordTransferred(uint256 indexed recordId, address indexed previousOwner, address indexed newOwner);
+    event RecordDeleted(uint256 indexed recordId, address indexed owner);
 
     error NotOwner();
-    error NotProvider();
+    error NotPendingOwner();
+    error InvalidOwner();
+    error MissingRole(bytes32 role, address account);
     error Paused();
     error CooldownActive();
     error BatchClosedOrInvalid();
     error ReplayAttempt();
-    error StateMismatch();
     error InvalidBatchId();
+    error InvalidNote();
+    error NotNoteOwner();
+    error InvalidRecord();
+    error RecommendationNotReady();
+    error EmptyProfile();
+    error InvalidCatalogWine();
+    error CatalogFull();
+    error EmptyCatalog();
+    error InvalidPairing();
+    error InvalidBatchPolicy();
+    error BatchBelowThreshold();
+    error BatchFull();
+    error InvalidNoiseConfig();
+    error PrivacyBudgetExhausted();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+    // The owner stays the root of trust and always passes admin checks, so
+    // revoking every admin can never lock the contract.
+    modifier onlyRole(bytes32 role) {
+        if (!hasRole(role, msg.sender) && !(role == ADMIN_ROLE && msg.sender == owner)) {
+            revert MissingRole(role, msg.sender);
+        }
         _;
     }
 
@@ -70,85 +199,348 @@ contract AISommelierFHE is SepoliaConfig {
 
     constructor() {
         owner = msg.sender;
-        isProvider[owner] = true;
-        emit ProviderAdded(owner);
+        bytes32[5] memory ownerRoles = _ownerRoles();
+        for (uint256 i = 0; i < ownerRoles.length; i++) {
+            _grantRole(ownerRoles[i], owner);
+        }
         cooldownSeconds = 60; // Default cooldown
+        minBatchNotes = 5; // Default k-anonymity threshold
+        maxBatchNotes = 64; // Default batch size
+        batchDecryptionBudget = 1; // Default privacy budget
+
+        // Red, White, Rose, Sparkling
+        _setPairingWeights(0, [uint8(5), 5, 5, 5]);  // None
+        _setPairingWeights(1, [uint8(10), 2, 4, 2]); // Red meat
+        _setPairingWeights(2, [uint8(5), 8, 6, 4]);  // Poultry
+        _setPairingWeights(3, [uint8(1), 10, 5, 7]); // Fish & seafood
+        _setPairingWeights(4, [uint8(7), 7, 4, 6]);  // Cheese
+        _setPairingWeights(5, [uint8(7), 6, 6, 3]);  // Pasta & risotto
+        _setPairingWeights(6, [uint8(3), 7, 8, 5]);  // Spicy dishes
+        _setPairingWeights(7, [uint8(2), 5, 4, 9]);  // Dessert
     }
 
+    // Ownership only moves once the new owner accepts, so a mistyped address
+    // can be canceled instead of bricking the contract.
     function transferOwnership(address newOwner) external onlyOwner {
-        address previousOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(previousOwner, newOwner);
+        if (newOwner == address(0)) revert InvalidOwner();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
     }
 
-    function addProvider(address provider) external onlyOwner {
-        if (!isProvider[provider]) {
-            isProvider[provider] = true;
-            emit ProviderAdded(provider);
-        }
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        _setOwner(msg.sender);
     }
 
-    function removeProvider(address provider) external onlyOwner {
-        if (isProvider[provider]) {
-            isProvider[provider] = false;
-            emit ProviderRemoved(provider);
-        }
+    function cancelOwnershipTransfer() external onlyOwner {
+        address canceledOwner = pendingOwner;
+        if (canceledOwner == address(0)) revert NotPendingOwner();
+        pendingOwner = address(0);
+        emit OwnershipTransferCanceled(owner, canceledOwner);
+    }
+
+    // Leaves the contract without an owner for good. The owner's roles go with
+    // it; roles held by other accounts keep working.
+    function renounceOwnership() external onlyOwner {
+        _setOwner(address(0));
     }
 
-    function pause() external onlyOwner whenNotPaused {
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roles[role][account];
+    }
+
+    function isProvider(address account) external view returns (bool) {
+        return hasRole(PROVIDER_ROLE, account);
+    }
+
+    function grantRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        _revokeRole(role, account);
+    }
+
+    function renounceRole(bytes32 role) external {
+        _revokeRole(role, msg.sender);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) whenNotPaused {
         paused = true;
         emit ContractPaused(msg.sender);
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         if (!paused) revert Paused(); // Already unpaused
         paused = false;
         emit ContractUnpaused(msg.sender);
     }
 
-    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyOwner {
+    function setCooldownSeconds(uint256 newCooldownSeconds) external onlyRole(ADMIN_ROLE) {
         uint256 oldCooldownSeconds = cooldownSeconds;
         cooldownSeconds = newCooldownSeconds;
         emit CooldownSecondsSet(oldCooldownSeconds, newCooldownSeconds);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
-        currentBatchId++;
-        isBatchClosed[currentBatchId] = false;
-        emit BatchOpened(currentBatchId);
+    function addCatalogWine(CatalogWine calldata wine) external onlyRole(CATALOG_CURATOR_ROLE) {
+        _validateCatalogWine(wine);
+        if (wine.active) _activateCatalogWine();
+        catalog.push(wine);
+        emit CatalogWineAdded(catalog.length - 1);
+    }
+
+    function updateCatalogWine(uint256 wineId, CatalogWine calldata wine) external onlyRole(CATALOG_CURATOR_ROLE) {
+        if (wineId >= catalog.length) revert InvalidCatalogWine();
+        _validateCatalogWine(wine);
+        if (wine.active && !catalog[wineId].active) _activateCatalogWine();
+        else if (!wine.active && catalog[wineId].active) activeCatalogWines--;
+        catalog[wineId] = wine;
+        emit CatalogWineUpdated(wineId);
+    }
+
+    function setPairingWeights(uint8 foodPairingId, uint8[4] calldata weights) external onlyRole(CATALOG_CURATOR_ROLE) {
+        _setPairingWeights(foodPairingId, weights);
+    }
+
+    function getPairingWeights(uint8 foodPairingId) external view returns (uint8[4] memory) {
+        return pairingWeights[foodPairingId];
+    }
+
+    function catalogLength() external view returns (uint256) {
+        return catalog.length;
     }
 
-    function closeBatch(uint256 batchId) external onlyOwner whenNotPaused {
+    function setBatchPolicy(uint256 newMaxBatchNotes, uint256 newMaxBatchDuration) external onlyRole(ADMIN_ROLE) {
+        if (newMaxBatchNotes < minBatchNotes || newMaxBatchNotes > MAX_BATCH_NOTES) revert InvalidBatchPolicy();
+        maxBatchNotes = newMaxBatchNotes;
+        maxBatchDuration = newMaxBatchDuration;
+        emit BatchPolicySet(newMaxBatchNotes, newMaxBatchDuration);
+    }
+
+    function setPrivacyThreshold(uint256 newMinBatchNotes, uint256 newMinBatchProviders) external onlyRole(ADMIN_ROLE) {
+        if (newMinBatchNotes == 0 || newMinBatchNotes > maxBatchNotes) revert InvalidBatchPolicy();
+        // Each provider brings at least one note, so more providers than notes could never be met
+        if (newMinBatchProviders > newMinBatchNotes) revert InvalidBatchPolicy();
+        minBatchNotes = newMinBatchNotes;
+        minBatchProviders = newMinBatchProviders;
+        emit PrivacyThresholdSet(newMinBatchNotes, newMinBatchProviders);
+    }
+
+    // randEuint32 only takes power-of-two bounds, so the scale must be one.
+    function setNoiseConfig(uint32 newNoiseScale, uint256 newBatchDecryptionBudget) external onlyRole(ADMIN_ROLE) {
+        bool powerOfTwo = newNoiseScale == 0 || (newNoiseScale & (newNoiseScale - 1)) == 0;
+        if (!powerOfTwo || newBatchDecryptionBudget == 0) revert InvalidNoiseConfig();
+        noiseScale = newNoiseScale;
+        batchDecryptionBudget = newBatchDecryptionBudget;
+        emit NoiseConfigSet(newNoiseScale, newBatchDecryptionBudget);
+    }
+
+    function meetsPrivacyThreshold(uint256 batchId) public view returns (bool) {
+        return batchNotes[batchId].length >= minBatchNotes && batchProviderCount[batchId] >= minBatchProviders;
+    }
+
+    function openBatch() external onlyRole(BATCH_OPERATOR_ROLE) whenNotPaused {
+        _openBatch();
+    }
+
+    function closeBatch(uint256 batchId) external onlyRole(BATCH_OPERATOR_ROLE) whenNotPaused {
         if (batchId == 0 || batchId > currentBatchId || isBatchClosed[batchId]) revert InvalidBatchId();
-        isBatchClosed[batchId] = true;
-        emit BatchClosed(batchId);
+        if (!meetsPrivacyThreshold(batchId)) revert BatchBelowThreshold();
+        _closeBatch(batchId);
     }
 
     function submitEncryptedWineNote(
-        euint32 _wineType,
-        euint32 _rating,
-        euint32 _foodPairingId,
-        euint32 _userId
-    ) external onlyProvider whenNotPaused {
+        externalEuint8 _wineType,
+        externalEuint8 _rating,
+        externalEuint8 _foodPairingId,
+        externalEuint32 _userId,
+        externalEuint32 _price,
+        externalEuint8 _tannins,
+        externalEuint8 _acidity,
+        externalEuint8 _region,
+        bytes calldata inputProof
+    ) external onlyRole(PROVIDER_ROLE) whenNotPaused {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
+        _rollBatchIfNeeded();
         if (currentBatchId == 0 || isBatchClosed[currentBatchId]) {
             revert BatchClosedOrInvalid();
         }
+        if (batchNotes[currentBatchId].length >= MAX_BATCH_NOTES) revert BatchFull();
+
+        // fromExternal reverts unless the proof binds every handle to this
+        // contract and msg.sender, so replayed or foreign ciphertexts are rejected.
+        EncryptedWineNote storage note = batchNotes[currentBatchId].push();
+        note.wineType = FHE.fromExternal(_wineType, inputProof);
+        note.rating = FHE.fromExternal(_rating, inputProof);
+        note.foodPairingId = FHE.fromExternal(_foodPairingId, inputProof);
+        note.userId = FHE.fromExternal(_userId, inputProof);
+        note.price = FHE.fromExternal(_price, inputProof);
+        note.tannins = FHE.fromExternal(_tannins, inputProof);
+        note.acidity = FHE.fromExternal(_acidity, inputProof);
+        note.region = FHE.fromExternal(_region, inputProof);
+        _allowNote(note, msg.sender);
+
+        euint32 rating = FHE.asEuint32(note.rating);
+        ebool[4] memory isType;
+        for (uint8 t = 0; t < 4; t++) {
+            isType[t] = note.wineType.eq(t);
+        }
+        _updateProfile(profiles[msg.sender], note, isType, rating, msg.sender);
+        _addToBatchScores(batchScores[currentBatchId], isType, rating);
+
+        uint256 noteIndex = batchNotes[currentBatchId].length - 1;
+        noteSubmitter[currentBatchId][noteIndex] = msg.sender;
+        noteRecordIds[currentBatchId][noteIndex] = records.length;
+        records.push(RecordRef(currentBatchId, noteIndex, msg.sender, address(0), block.timestamp));
+        _addRecordToOwner(records.length - 1, msg.sender);
+        emit RecordCreated(records.length - 1, msg.sender, currentBatchId, noteIndex);
+        if (!hasSubmittedToBatch[currentBatchId][msg.sender]) {
+            hasSubmittedToBatch[currentBatchId][msg.sender] = true;
+            batchProviderCount[currentBatchId]++;
+        }
+        lastSubmissionTime[msg.sender] = block.timestamp;
+
+        emit WineNoteSubmitted(msg.sender, currentBatchId, noteIndex);
+    }
 
-        _initIfNeeded(_wineType);
-        _initIfNeeded(_rating);
-        _initIfNeeded(_foodPairingId);
-        _initIfNeeded(_userId);
+    function scoreWineNote(uint256 batchId, uint256 noteIndex) external whenNotPaused returns (ebool) {
+        if (noteIndex >= batchNotes[batchId].length) revert InvalidNote();
+        if (records[noteRecordIds[batchId][noteIndex]].owner != msg.sender) revert NotNoteOwner();
 
-        batchNotes[currentBatchId].push(EncryptedWineNote(_wineType, _rating, _foodPairingId, _userId));
-        lastSubmissionTime[msg.sender] = block.timestamp;
+        ebool recommended = _scoreWine(batchNotes[batchId][noteIndex]);
+        FHE.allowThis(recommended);
+        FHE.allow(recommended, msg.sender);
+        noteRecommendations[batchId][noteIndex] = recommended;
+
+        emit WineNoteScored(msg.sender, batchId, noteIndex);
+        emit RecordUpdated(noteRecordIds[batchId][noteIndex], msg.sender);
+        return recommended;
+    }
+
+    function getNoteRecommendation(uint256 batchId, uint256 noteIndex) external view returns (ebool) {
+        if (noteIndex >= batchNotes[batchId].length) revert InvalidNote();
+        return noteRecommendations[batchId][noteIndex];
+    }
+
+    function recordCount() external view returns (uint256) {
+        return records.length;
+    }
+
+    function recordCountByOwner(address account) external view returns (uint256) {
+        return recordsByOwner[account].length;
+    }
+
+    // The new owner is allowed to decrypt the note and its verdict. The ACL
+    // has no revoke, so the previous owner keeps access to existing handles.
+    function transferRecord(uint256 recordId, address newOwner) external whenNotPaused {
+        RecordRef storage ref = _ownedRecord(recordId);
+        if (newOwner == address(0)) revert InvalidOwner();
+
+        _allowNote(batchNotes[ref.batchId][ref.noteIndex], newOwner);
+        ebool recommended = noteRecommendations[ref.batchId][ref.noteIndex];
+        if (FHE.isInitialized(recommended)) FHE.allow(recommended, newOwner);
+
+        _removeRecordFromOwner(recordId, msg.sender);
+        _addRecordToOwner(recordId, newOwner);
+        emit RecordTransferred(recordId, msg.sender, newOwner);
+        emit RecordUpdated(recordId, newOwner);
+    }
+
+    // Drops the record from listings and scoring. Its values stay in the batch
+    // aggregates and taste profile they were already folded into.
+    function deleteRecord(uint256 recordId) external whenNotPaused {
+        _ownedRecord(recordId);
+        _removeRecordFromOwner(recordId, msg.sender);
+        emit RecordDeleted(recordId, msg.sender);
+        emit RecordUpdated(recordId, address(0));
+    }
+
+    // Pages past the end come back empty; a page running over it is truncated.
+    // Deleted records keep their slot here with a zero owner.
+    function getRecords(uint256 offset, uint256 limit) external view returns (WineRecord[] memory page) {
+        (uint256 start, uint256 end) = _pageBounds(records.length, offset, limit);
+        page = new WineRecord[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = _wineRecord(i);
+        }
+    }
+
+    function getRecordsByOwner(address account, uint256 offset, uint256 limit)
+        external
+        view
+        returns (WineRecord[] memory page)
+    {
+        uint256[] storage ids = recordsByOwner[account];
+        (uint256 start, uint256 end) = _pageBounds(ids.length, offset, limit);
+        page = new WineRecord[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = _wineRecord(ids[i]);
+        }
+    }
+
+    function getMyTopStyle() external whenNotPaused returns (euint8) {
+        TasteProfile storage profile = profiles[msg.sender];
+        if (profile.noteCount == 0) revert EmptyProfile();
+
+        euint8 topStyle = _topStyle(profile);
+        FHE.allowThis(topStyle);
+        FHE.allow(topStyle, msg.sender);
+        profile.topStyle = topStyle;
+
+        emit TopStyleComputed(msg.sender);
+        return topStyle;
+    }
 
-        emit WineNoteSubmitted(msg.sender, currentBatchId, batchNotes[currentBatchId].length - 1);
+    function getTopStyle(address user) external view returns (euint8) {
+        return profiles[user].topStyle;
     }
 
-    function requestRecommendation(uint256 batchId) external onlyProvider whenNotPaused {
+    function findMyBestMatch() external whenNotPaused returns (euint32) {
+        TasteProfile storage profile = profiles[msg.sender];
+        if (profile.noteCount == 0) revert EmptyProfile();
+
+        euint32 bestMatch = _bestMatch(profile);
+        FHE.allowThis(bestMatch);
+        FHE.allow(bestMatch, msg.sender);
+        profile.bestMatch = bestMatch;
+
+        emit BestMatchComputed(msg.sender);
+        return bestMatch;
+    }
+
+    function getBestMatch(address user) external view returns (euint32) {
+        return profiles[user].bestMatch;
+    }
+
+    function pairWineForDish(externalEuint8 _foodPairingId, bytes calldata inputProof) external whenNotPaused returns (euint8) {
+        euint8 foodPairingId = FHE.fromExternal(_foodPairingId, inputProof);
+        TasteProfile storage profile = profiles[msg.sender];
+
+        euint8 pairing = _pairWine(foodPairingId, profile);
+        FHE.allowThis(pairing);
+        FHE.allow(pairing, msg.sender);
+        profile.dishPairing = pairing;
+
+        emit DishPaired(msg.sender);
+        return pairing;
+    }
+
+    function getDishPairing(address user) external view returns (euint8) {
+        return profiles[user].dishPairing;
+    }
+
+    function getProfile(address user)
+        external
+        view
+        returns (euint32[4] memory ratingSums, euint32[4] memory counts, euint32 tanninSum, euint32 aciditySum, uint256 noteCount)
+    {
+        TasteProfile storage profile = profiles[user];
+        return (profile.ratingSums, profile.counts, profile.tanninSum, profile.aciditySum, profile.noteCount);
+    }
+
+    function requestRecommendation(uint256 batchId) external onlyRole(PROVIDER_ROLE) whenNotPaused {
         if (batchId == 0 || batchId > currentBatchId || !isBatchClosed[batchId]) {
             revert InvalidBatchId();
         }
@@ -156,50 +548,32 @@ contract AISommelierFHE is SepoliaConfig {
             revert CooldownActive();
         }
 
-        EncryptedWineNote[] storage notes = batchNotes[batchId];
-        if (notes.length == 0) revert("No notes in batch");
-
-        euint32[] memory _wineTypes = new euint32[](notes.length);
-        euint32[] memory _ratings = new euint32[](notes.length);
-        euint32[] memory _foodPairingIds = new euint32[](notes.length);
-        euint32[] memory _userIds = new euint32[](notes.length);
-
-        for (uint256 i = 0; i < notes.length; i++) {
-            _wineTypes[i] = notes[i].wineType;
-            _ratings[i] = notes[i].rating;
-            _foodPairingIds[i] = notes[i].foodPairingId;
-            _userIds[i] = notes[i].userId;
-        }
+        if (!meetsPrivacyThreshold(batchId)) revert BatchBelowThreshold();
+        if (batchDecryptionCount[batchId] >= batchDecryptionBudget) revert PrivacyBudgetExhausted();
 
-        // Placeholder FHE logic: Sum ratings for each wine type (example)
-        // In a real scenario, this would be a more complex AI model
-        euint32[] memory recommendationScores = new euint32[](4); // 4 wine types
-        for (uint256 i = 0; i < 4; i++) {
-            recommendationScores[i] = FHE.asEuint32(0);
-        }
+        // Summed on submission, so the cost here does not grow with the batch.
+        // Every note adds to all four sums, so a batch that met the threshold
+        // has them all initialized.
+        euint32[4] memory recommendationScores = batchScores[batchId];
 
-        for (uint256 i = 0; i < notes.length; i++) {
-            ebool isType0 = _wineTypes[i].eq(FHE.asEuint32(0));
-            ebool isType1 = _wineTypes[i].eq(FHE.asEuint32(1));
-            ebool isType2 = _wineTypes[i].eq(FHE.asEuint32(2));
-            ebool isType3 = _wineTypes[i].eq(FHE.asEuint32(3));
-
-            euint32 rating = _ratings[i];
-            recommendationScores[0] = recommendationScores[0].add(rating.mul(isType0.toEuint32()));
-            recommendationScores[1] = recommendationScores[1].add(rating.mul(isType1.toEuint32()));
-            recommendationScores[2] = recommendationScores[2].add(rating.mul(isType2.toEuint32()));
-            recommendationScores[3] = recommendationScores[3].add(rating.mul(isType3.toEuint32()));
+        // Fresh noise per score keeps differencing of consecutive batches from
+        // recovering individual ratings
+        if (noiseScale != 0) {
+            for (uint256 i = 0; i < 4; i++) {
+                recommendationScores[i] = recommendationScores[i].add(FHE.randEuint32(noiseScale));
+            }
         }
 
         bytes32[] memory cts = new bytes32[](4);
         for (uint256 i = 0; i < 4; i++) {
+            FHE.allowThis(recommendationScores[i]);
             cts[i] = recommendationScores[i].toBytes32();
         }
-        bytes32 stateHash = _hashCiphertexts(cts);
 
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
-        decryptionContexts[requestId] = DecryptionContext(batchId, stateHash, false);
+        decryptionContexts[requestId] = DecryptionContext(batchId, false);
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
+        batchDecryptionCount[batchId]++;
 
         emit RecommendationRequested(requestId, batchId);
     }
@@ -207,65 +581,318 @@ contract AISommelierFHE is SepoliaConfig {
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
         if (decryptionContexts[requestId].processed) revert ReplayAttempt();
 
-        DecryptionContext memory ctx = decryptionContexts[requestId];
-        // Security: Rebuild cts from current contract storage to ensure state consistency
-        EncryptedWineNote[] storage notes = batchNotes[ctx.batchId];
-        euint32[] memory _wineTypes = new euint32[](notes.length);
-        euint32[] memory _ratings = new euint32[](notes.length);
-        euint32[] memory _foodPairingIds = new euint32[](notes.length);
-        euint32[] memory _userIds = new euint32[](notes.length);
-
-        for (uint256 i = 0; i < notes.length; i++) {
-            _wineTypes[i] = notes[i].wineType;
-            _ratings[i] = notes[i].rating;
-            _foodPairingIds[i] = notes[i].foodPairingId;
-            _userIds[i] = notes[i].userId;
-        }
-        euint32[] memory recommendationScores = new euint32[](4);
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        // Verifies the KMS signatures against the handles requestDecryption
+        // saved for this request id, and reverts for ids it never issued.
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // Each euint32 cleartext is ABI-encoded in its own 32-byte word, in cts order
+        uint256[4] memory scores = abi.decode(cleartexts, (uint256[4]));
+        uint256[] memory results = new uint256[](4);
         for (uint256 i = 0; i < 4; i++) {
-            recommendationScores[i] = FHE.asEuint32(0);
+            results[i] = scores[i];
         }
-        for (uint256 i = 0; i < notes.length; i++) {
-            ebool isType0 = _wineTypes[i].eq(FHE.asEuint32(0));
-            ebool isType1 = _wineTypes[i].eq(FHE.asEuint32(1));
-            ebool isType2 = _wineTypes[i].eq(FHE.asEuint32(2));
-            ebool isType3 = _wineTypes[i].eq(FHE.asEuint32(3));
-            euint32 rating = _ratings[i];
-            recommendationScores[0] = recommendationScores[0].add(rating.mul(isType0.toEuint32()));
-            recommendationScores[1] = recommendationScores[1].add(rating.mul(isType1.toEuint32()));
-            recommendationScores[2] = recommendationScores[2].add(rating.mul(isType2.toEuint32()));
-            recommendationScores[3] = recommendationScores[3].add(rating.mul(isType3.toEuint32()));
+
+        ctx.processed = true;
+        batchResults[ctx.batchId] = scores;
+        isBatchAnalyzed[ctx.batchId] = true;
+        emit RecommendationCompleted(requestId, ctx.batchId, results);
+    }
+
+    function getBatchRecommendation(uint256 batchId) external view returns (uint256[4] memory scores, uint8 topWineType) {
+        if (!isBatchAnalyzed[batchId]) revert RecommendationNotReady();
+        scores = batchResults[batchId];
+        for (uint8 i = 1; i < 4; i++) {
+            if (scores[i] > scores[topWineType]) topWineType = i;
         }
-        bytes32[] memory currentCts = new bytes32[](4);
-        for (uint256 i = 0; i < 4; i++) {
-            currentCts[i] = recommendationScores[i].toBytes32();
+    }
+
+    // rating*0.5 + (100 - price)*0.3 + tannins*0.1 + acidity*0.1 > 50, scaled by 10
+    // to stay in integers. Price is in cents and capped at $100.
+    function _scoreWine(EncryptedWineNote storage note) internal returns (ebool) {
+        euint16 priceDollars = FHE.asEuint16(note.price.div(100).min(100));
+        euint16 score = FHE.asEuint16(note.rating).mul(5);
+        score = score.add(FHE.sub(100, priceDollars).mul(3));
+        score = score.add(FHE.asEuint16(note.tannins)).add(FHE.asEuint16(note.acidity));
+        return score.gt(500);
+    }
+
+    function _updateProfile(
+        TasteProfile storage profile,
+        EncryptedWineNote storage note,
+        ebool[4] memory isType,
+        euint32 rating,
+        address user
+    ) internal {
+        for (uint8 t = 0; t < 4; t++) {
+            profile.ratingSums[t] = profile.ratingSums[t].add(FHE.select(isType[t], rating, FHE.asEuint32(0)));
+            profile.counts[t] = profile.counts[t].add(FHE.asEuint32(isType[t]));
+            FHE.allowThis(profile.ratingSums[t]);
+            FHE.allow(profile.ratingSums[t], user);
+            FHE.allowThis(profile.counts[t]);
+            FHE.allow(profile.counts[t], user);
         }
-        bytes32 currentStateHash = _hashCiphertexts(currentCts);
+        profile.tanninSum = profile.tanninSum.add(FHE.asEuint32(note.tannins));
+        profile.aciditySum = profile.aciditySum.add(FHE.asEuint32(note.acidity));
+        FHE.allowThis(profile.tanninSum);
+        FHE.allow(profile.tanninSum, user);
+        FHE.allowThis(profile.aciditySum);
+        FHE.allow(profile.aciditySum, user);
+        profile.priceSum = profile.priceSum.add(note.price);
+        FHE.allowThis(profile.priceSum);
+        FHE.allow(profile.priceSum, user);
+        profile.noteCount++;
+    }
 
-        if (currentStateHash != ctx.stateHash) revert StateMismatch();
-        FHE.checkSignatures(requestId, cleartexts, proof);
+    // A select is cheaper than multiplying the rating by the type flag.
+    function _addToBatchScores(euint32[4] storage scores, ebool[4] memory isType, euint32 rating) internal {
+        for (uint8 t = 0; t < 4; t++) {
+            scores[t] = scores[t].add(FHE.select(isType[t], rating, FHE.asEuint32(0)));
+            FHE.allowThis(scores[t]);
+        }
+    }
 
-        uint256[] memory results = new uint256[](4);
-        for (uint256 i = 0; i < 4; i++) {
-            results[i] = abi.decode(cleartexts, (uint256));
-            cleartexts = cleartexts[32:]; // Advance slice
+    // Argmax of average rating per wine type. Averages are compared by
+    // cross-multiplying (a/b > c/d <=> a*d > c*b) since FHE has no encrypted
+    // division; types without notes never win over a type that has some.
+    function _topStyle(TasteProfile storage profile) internal returns (euint8) {
+        euint8 best = FHE.asEuint8(0);
+        euint64 bestSum = FHE.asEuint64(profile.ratingSums[0]);
+        euint64 bestCount = FHE.asEuint64(profile.counts[0]);
+        for (uint8 t = 1; t < 4; t++) {
+            euint64 sum = FHE.asEuint64(profile.ratingSums[t]);
+            euint64 count = FHE.asEuint64(profile.counts[t]);
+            ebool better = sum.mul(bestCount).gt(bestSum.mul(count));
+            better = better.or(bestCount.eq(0).and(count.gt(0)));
+            best = FHE.select(better, FHE.asEuint8(t), best);
+            bestSum = FHE.select(better, sum, bestSum);
+            bestCount = FHE.select(better, count, bestCount);
         }
+        return best;
+    }
 
-        decryptionContexts[requestId].processed = true;
-        emit RecommendationCompleted(requestId, ctx.batchId, results);
+    // Scores each wine type as weight(dish, type) * 4, plus 5 for the user's
+    // favourite type when they have history, so a favourite wins over a
+    // table pick that is only one weight point better. The dish is looked up
+    // with encrypted selects, so unknown ids get no table weight at all.
+    function _pairWine(euint8 foodPairingId, TasteProfile storage profile) internal returns (euint8) {
+        ebool[] memory isDish = new ebool[](PAIRING_DISHES);
+        for (uint8 d = 0; d < PAIRING_DISHES; d++) {
+            isDish[d] = foodPairingId.eq(d);
+        }
+        bool hasHistory = profile.noteCount > 0;
+        euint8 favourite;
+        if (hasHistory) favourite = _topStyle(profile);
+
+        euint8 best = FHE.asEuint8(0);
+        euint8 bestScore;
+        for (uint8 t = 0; t < 4; t++) {
+            euint8 score = FHE.asEuint8(0);
+            for (uint8 d = 0; d < PAIRING_DISHES; d++) {
+                score = FHE.select(isDish[d], FHE.asEuint8(pairingWeights[d][t]), score);
+            }
+            score = score.mul(4);
+            if (hasHistory) {
+                score = score.add(FHE.select(favourite.eq(t), FHE.asEuint8(5), FHE.asEuint8(0)));
+            }
+            if (t == 0) {
+                bestScore = score;
+                continue;
+            }
+            ebool better = score.gt(bestScore);
+            best = FHE.select(better, FHE.asEuint8(t), best);
+            bestScore = FHE.max(score, bestScore);
+        }
+        return best;
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    // Index of the active catalog wine with the smallest L1 distance to the
+    // profile's averages over tannins, acidity and price band, plus a penalty
+    // of 10 when the wine is not of the profile's favourite type.
+    function _bestMatch(TasteProfile storage profile) internal returns (euint32) {
+        euint8 avgTannins = FHE.asEuint8(profile.tanninSum.div(uint32(profile.noteCount)));
+        euint8 avgAcidity = FHE.asEuint8(profile.aciditySum.div(uint32(profile.noteCount)));
+        euint32 avgPrice = profile.priceSum.div(uint32(profile.noteCount));
+        euint8 priceBand = FHE.asEuint8(avgPrice.gt(1500)).add(FHE.asEuint8(avgPrice.gt(3000))).add(
+            FHE.asEuint8(avgPrice.gt(6000))
+        );
+        euint8 topStyle = _topStyle(profile);
+
+        euint32 best;
+        euint8 bestDistance;
+        bool found;
+        for (uint256 i = 0; i < catalog.length; i++) {
+            CatalogWine storage wine = catalog[i];
+            if (!wine.active) continue;
+
+            euint8 distance = _absDiff(avgTannins, wine.tannins)
+                .add(_absDiff(avgAcidity, wine.acidity))
+                .add(_absDiff(priceBand, wine.priceBand))
+                .add(FHE.select(topStyle.eq(wine.wineType), FHE.asEuint8(0), FHE.asEuint8(10)));
+            if (!found) {
+                best = FHE.asEuint32(uint32(i));
+                bestDistance = distance;
+                found = true;
+                continue;
+            }
+            ebool closer = distance.lt(bestDistance);
+            best = FHE.select(closer, FHE.asEuint32(uint32(i)), best);
+            bestDistance = FHE.min(distance, bestDistance);
+        }
+        if (!found) revert EmptyCatalog();
+        return best;
+    }
+
+    function _activateCatalogWine() internal {
+        if (activeCatalogWines >= MAX_CATALOG_SIZE) revert CatalogFull();
+        activeCatalogWines++;
+    }
+
+    function _absDiff(euint8 a, uint8 b) internal returns (euint8) {
+        return FHE.select(a.gt(b), a.sub(b), FHE.sub(b, a));
+    }
+
+    function _setPairingWeights(uint8 foodPairingId, uint8[4] memory weights) internal {
+        if (foodPairingId >= PAIRING_DISHES) revert InvalidPairing();
+        for (uint256 t = 0; t < 4; t++) {
+            if (weights[t] > MAX_PAIRING_WEIGHT) revert InvalidPairing();
+        }
+        pairingWeights[foodPairingId] = weights;
+        emit PairingWeightsSet(foodPairingId, weights);
+    }
+
+    function _validateCatalogWine(CatalogWine calldata wine) internal pure {
+        if (
+            bytes(wine.name).length == 0 ||
+            wine.wineType > 3 ||
+            wine.tannins == 0 ||
+            wine.tannins > 10 ||
+            wine.acidity == 0 ||
+            wine.acidity > 10 ||
+            wine.priceBand > 3
+        ) revert InvalidCatalogWine();
+    }
+
+    // The roles the constructor gives the owner move with ownership, so a
+    // replaced key keeps no control over the contract.
+    function _setOwner(address newOwner) internal {
+        address previousOwner = owner;
+        owner = newOwner;
+        pendingOwner = address(0);
+        bytes32[5] memory ownerRoles = _ownerRoles();
+        for (uint256 i = 0; i < ownerRoles.length; i++) {
+            _revokeRole(ownerRoles[i], previousOwner);
+            if (newOwner != address(0)) _grantRole(ownerRoles[i], newOwner);
+        }
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    function _ownerRoles() internal pure returns (bytes32[5] memory) {
+        return [ADMIN_ROLE, BATCH_OPERATOR_ROLE, PROVIDER_ROLE, CATALOG_CURATOR_ROLE, PAUSER_ROLE];
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (!roles[role][account]) {
+            roles[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
     }
 
-    function _initIfNeeded(euint32 v) internal {
-        if (!v.isInitialized()) {
-            v.initialize(FHE.asEuint32(0));
+    function _revokeRole(bytes32 role, address account) internal {
+        if (roles[role][account]) {
+            roles[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
         }
     }
 
-    function _requireInitialized(euint32 v) internal pure {
-        if (!v.isInitialized()) revert("Ciphertext not initialized");
+    function _openBatch() internal {
+        currentBatchId++;
+        isBatchClosed[currentBatchId] = false;
+        batchOpenedAt[currentBatchId] = block.timestamp;
+        emit BatchOpened(currentBatchId);
+    }
+
+    function _closeBatch(uint256 batchId) internal {
+        isBatchClosed[batchId] = true;
+        emit BatchClosed(batchId);
+    }
+
+    // A full or expired current batch is closed and a fresh one opened so
+    // submissions never wait on the owner. A batch below the privacy threshold
+    // keeps accepting notes past its limits, up to MAX_BATCH_NOTES; one closed
+    // by hand stays closed until the next openBatch.
+    function _rollBatchIfNeeded() internal {
+        if (currentBatchId == 0 || isBatchClosed[currentBatchId]) return;
+
+        bool full = batchNotes[currentBatchId].length >= maxBatchNotes;
+        bool expired = maxBatchDuration != 0 && block.timestamp >= batchOpenedAt[currentBatchId] + maxBatchDuration;
+        if ((!full && !expired) || !meetsPrivacyThreshold(currentBatchId)) return;
+        _closeBatch(currentBatchId);
+        _openBatch();
+    }
+
+    function _wineRecord(uint256 recordId) internal view returns (WineRecord memory) {
+        RecordRef storage ref = records[recordId];
+        return WineRecord({
+            recordId: recordId,
+            batchId: ref.batchId,
+            noteIndex: ref.noteIndex,
+            provider: ref.provider,
+            owner: ref.owner,
+            timestamp: ref.timestamp,
+            note: batchNotes[ref.batchId][ref.noteIndex],
+            recommendation: noteRecommendations[ref.batchId][ref.noteIndex]
+        });
+    }
+
+    function _ownedRecord(uint256 recordId) internal view returns (RecordRef storage ref) {
+        if (recordId >= records.length || records[recordId].owner == address(0)) revert InvalidRecord();
+        ref = records[recordId];
+        if (ref.owner != msg.sender) revert NotNoteOwner();
+    }
+
+    function _addRecordToOwner(uint256 recordId, address account) internal {
+        records[recordId].owner = account;
+        recordOwnerIndex[recordId] = recordsByOwner[account].length;
+        recordsByOwner[account].push(recordId);
+    }
+
+    // Swap-and-pop, so an owner's listing is not in submission order once
+    // they transfer or delete a record.
+    function _removeRecordFromOwner(uint256 recordId, address account) internal {
+        uint256[] storage ids = recordsByOwner[account];
+        uint256 index = recordOwnerIndex[recordId];
+        uint256 lastId = ids[ids.length - 1];
+        ids[index] = lastId;
+        recordOwnerIndex[lastId] = index;
+        ids.pop();
+        delete recordOwnerIndex[recordId];
+        records[recordId].owner = address(0);
+    }
+
+    function _pageBounds(uint256 total, uint256 offset, uint256 limit) internal pure returns (uint256 start, uint256 end) {
+        if (offset >= total) return (total, total);
+        start = offset;
+        end = limit > total - offset ? total : offset + limit;
+    }
+
+    function _allowNote(EncryptedWineNote storage note, address account) internal {
+        FHE.allowThis(note.wineType);
+        FHE.allowThis(note.rating);
+        FHE.allowThis(note.foodPairingId);
+        FHE.allowThis(note.userId);
+        FHE.allowThis(note.price);
+        FHE.allowThis(note.tannins);
+        FHE.allowThis(note.acidity);
+        FHE.allowThis(note.region);
+
+        FHE.allow(note.wineType, account);
+        FHE.allow(note.rating, account);
+        FHE.allow(note.foodPairingId, account);
+        FHE.allow(note.userId, account);
+        FHE.allow(note.price, account);
+        FHE.allow(note.tannins, account);
+        FHE.allow(note.acidity, account);
+        FHE.allow(note.region, account);
     }
 }
\ No newline at end of file
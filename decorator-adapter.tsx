@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-interface handler-template-queriesProps { data: string }
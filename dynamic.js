@@ -1,3 +0,0 @@
-import React from 'react';
-
-export const usepages = () => { return {}; };
@@ -3,60 +3,58 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getContractReadOnly, getSigner } from "./contract";
+import { createDecryptionAuth, isDecryptionAuthValid, toCents, userDecrypt, UserDecryptionAuth } from "./fhevm";
+import { CatalogWine, computeTopStyle, deleteRecord, findBestMatch, isProvider, loadCatalog, loadWineNotes, pairWineForDish, requestBatchRecommendation, scoreWineNote, submitWineNote, subscribeToRecords, transferRecord } from "./sommelier";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+
+type DecryptedValues = {
+  wineType?: number;
+  rating?: number;
+  foodPairing?: number;
+  price?: number;
+  tannins?: number;
+  acidity?: number;
+  region?: number;
+  recommendation?: number;
+};
 
 interface WineRecord {
   id: string;
+  recordId: number;
+  batchId: number;
+  noteIndex: number;
+  encryptedWineType: string;
   encryptedRating: string;
+  encryptedFoodPairing: string;
   encryptedPrice: string;
   encryptedTannins: string;
   encryptedAcidity: string;
+  encryptedRegion: string;
+  encryptedRecommendation: string;
   timestamp: number;
+  provider: string;
   owner: string;
-  wineType: string;
-  region: string;
-  status: "pending" | "recommended" | "not_recommended";
+  batchStatus: "open" | "closed" | "analyzed";
+  batchTopWineType?: number;
+  batchMeetsThreshold: boolean;
+  status: "pending" | "scored" | "recommended" | "not_recommended";
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
+// Sliders start at their minimum so what is shown is what gets encrypted
+const emptyRecordData = {
+  wineType: "",
+  region: "",
+  rating: 1,
+  price: 0,
+  tannins: 1,
+  acidity: 1,
+  foodPairing: "None"
 };
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
-
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'increase10%':
-      result = value * 1.1;
-      break;
-    case 'decrease10%':
-      result = value * 0.9;
-      break;
-    case 'double':
-      result = value * 2;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
-
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<WineRecord[]>([]);
   const [filteredRecords, setFilteredRecords] = useState<WineRecord[]>([]);
@@ -64,52 +62,62 @@ const App: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState({ 
-    wineType: "", 
-    region: "", 
-    rating: 0,
-    price: 0,
-    tannins: 0,
-    acidity: 0,
-    foodPairing: ""
-  });
+  const [newRecordData, setNewRecordData] = useState(emptyRecordData);
   const [showTutorial, setShowTutorial] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<WineRecord | null>(null);
-  const [decryptedValues, setDecryptedValues] = useState<{rating?: number, price?: number, tannins?: number, acidity?: number}>({});
+  const [decryptedValues, setDecryptedValues] = useState<DecryptedValues>({});
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
+  const [decryptionAuth, setDecryptionAuth] = useState<UserDecryptionAuth | null>(null);
   const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
   const [startTimestamp, setStartTimestamp] = useState<number>(0);
   const [durationDays, setDurationDays] = useState<number>(30);
   const [searchTerm, setSearchTerm] = useState("");
-  const [filterType, setFilterType] = useState("all");
-  const [filterRegion, setFilterRegion] = useState("all");
+  const [filterBatch, setFilterBatch] = useState("all");
   const [userHistory, setUserHistory] = useState<WineRecord[]>([]);
+  const [topStyle, setTopStyle] = useState<number | null>(null);
+  const [catalog, setCatalog] = useState<CatalogWine[]>([]);
+  const [suggestedWine, setSuggestedWine] = useState<CatalogWine | null>(null);
+  const [dinnerDish, setDinnerDish] = useState(1);
+  const [dinnerPairing, setDinnerPairing] = useState<number | null>(null);
+  const [canAnalyze, setCanAnalyze] = useState(false);
 
   const recommendedCount = records.filter(r => r.status === "recommended").length;
   const pendingCount = records.filter(r => r.status === "pending").length;
   const notRecommendedCount = records.filter(r => r.status === "not_recommended").length;
 
-  const wineTypes = ["Red", "White", "Rosé", "Sparkling", "Dessert"];
+  // Indices match the contract's encrypted wineType / foodPairingId values
+  const wineTypes = ["Red", "White", "Rosé", "Sparkling"];
+  const foodPairings = ["None", "Red meat", "Poultry", "Fish & seafood", "Cheese", "Pasta & risotto", "Spicy dishes", "Dessert"];
+  const priceBands = ["under $15", "$15-30", "$30-60", "over $60"];
   const regions = ["Bordeaux", "Burgundy", "Champagne", "Tuscany", "Rioja", "Napa Valley", "Barossa", "Marlborough", "Other"];
+  const batchIds = [...new Set(records.map(r => r.batchId))].sort((a, b) => b - a);
 
   useEffect(() => {
     loadRecords().finally(() => setLoading(false));
+    loadCatalog().then(setCatalog).catch(e => console.error("Error loading catalog:", e));
     const initSignatureParams = async () => {
       const contract = await getContractReadOnly();
       if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
       setStartTimestamp(Math.floor(Date.now() / 1000));
       setDurationDays(30);
-      setPublicKey(generatePublicKey());
     };
     initSignatureParams();
   }, []);
 
+  // Other users' submissions, scores and transfers show up without a manual refresh
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+    subscribeToRecords(() => loadRecords()).then(off => {
+      if (cancelled) off();
+      else unsubscribe = off;
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
   useEffect(() => {
     if (address) {
       const history = records.filter(r => r.owner.toLowerCase() === address.toLowerCase());
@@ -119,26 +127,39 @@ const App: React.FC = () => {
     }
   }, [address, records]);
 
+  useEffect(() => {
+    setTopStyle(null);
+    setSuggestedWine(null);
+    setDinnerPairing(null);
+  }, [address]);
+
+  useEffect(() => {
+    setCanAnalyze(false);
+    if (!address) return;
+    let cancelled = false;
+    isProvider(address)
+      .then(provider => { if (!cancelled) setCanAnalyze(provider); })
+      .catch(e => console.error("Error checking provider role:", e));
+    return () => { cancelled = true; };
+  }, [address]);
+
   useEffect(() => {
     filterRecords();
-  }, [records, searchTerm, filterType, filterRegion]);
+  }, [records, searchTerm, filterBatch]);
 
   const filterRecords = () => {
     let filtered = [...records];
     
     if (searchTerm) {
+      const term = searchTerm.toLowerCase().replace(/^#/, "");
       filtered = filtered.filter(record => 
-        record.wineType.toLowerCase().includes(searchTerm.toLowerCase()) || 
-        record.region.toLowerCase().includes(searchTerm.toLowerCase())
+        record.owner.toLowerCase().includes(term) || 
+        record.batchId.toString() === term
       );
     }
     
-    if (filterType !== "all") {
-      filtered = filtered.filter(record => record.wineType === filterType);
-    }
-    
-    if (filterRegion !== "all") {
-      filtered = filtered.filter(record => record.region === filterRegion);
+    if (filterBatch !== "all") {
+      filtered = filtered.filter(record => record.batchId.toString() === filterBatch);
     }
     
     setFilteredRecords(filtered);
@@ -147,99 +168,62 @@ const App: React.FC = () => {
   const loadRecords = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      const keysBytes = await contract.getData("wine_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing wine keys:", e); }
-      }
-      const list: WineRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`wine_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({ 
-                id: key, 
-                encryptedRating: recordData.rating, 
-                encryptedPrice: recordData.price,
-                encryptedTannins: recordData.tannins,
-                encryptedAcidity: recordData.acidity,
-                timestamp: recordData.timestamp, 
-                owner: recordData.owner, 
-                wineType: recordData.wineType, 
-                region: recordData.region,
-                status: recordData.status || "pending" 
-              });
-            } catch (e) { console.error(`Error parsing wine data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading wine ${key}:`, e); }
-      }
+      const { notes, batches } = await loadWineNotes();
+      const list: WineRecord[] = notes.map(note => {
+        const batch = batches.get(note.batchId);
+        return {
+          id: `${note.batchId}-${note.noteIndex}`,
+          recordId: note.recordId,
+          batchId: note.batchId,
+          noteIndex: note.noteIndex,
+          encryptedWineType: note.wineType,
+          encryptedRating: note.rating,
+          encryptedFoodPairing: note.foodPairingId,
+          encryptedPrice: note.price,
+          encryptedTannins: note.tannins,
+          encryptedAcidity: note.acidity,
+          encryptedRegion: note.region,
+          encryptedRecommendation: note.recommendation,
+          timestamp: note.timestamp,
+          provider: note.provider,
+          owner: note.owner,
+          batchStatus: batch?.recommendation ? "analyzed" : batch?.closed ? "closed" : "open",
+          batchTopWineType: batch?.recommendation?.topWineType,
+          batchMeetsThreshold: !!batch?.meetsPrivacyThreshold,
+          status: note.recommendation === ethers.ZeroHash ? "pending" : "scored"
+        };
+      });
       list.sort((a, b) => b.timestamp - a.timestamp);
-      setRecords(list);
+      // Verdicts only exist in plaintext once the owner decrypted them; keep them across reloads
+      setRecords(prev => list.map(record => {
+        const known = prev.find(r => r.id === record.id && r.encryptedRecommendation === record.encryptedRecommendation);
+        return known && record.status === "scored" ? { ...record, status: known.status } : record;
+      }));
     } catch (e) { console.error("Error loading wine records:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
   const submitRecord = async () => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting wine data with Zama FHE..." });
     try {
-      const encryptedRating = FHEEncryptNumber(newRecordData.rating);
-      const encryptedPrice = FHEEncryptNumber(newRecordData.price);
-      const encryptedTannins = FHEEncryptNumber(newRecordData.tannins);
-      const encryptedAcidity = FHEEncryptNumber(newRecordData.acidity);
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const recordData = { 
-        rating: encryptedRating, 
-        price: encryptedPrice,
-        tannins: encryptedTannins,
-        acidity: encryptedAcidity,
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        wineType: newRecordData.wineType, 
-        region: newRecordData.region,
-        foodPairing: newRecordData.foodPairing,
-        status: "pending" 
-      };
-      
-      await contract.setData(`wine_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
-      
-      const keysBytes = await contract.getData("wine_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(recordId);
-      await contract.setData("wine_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      await submitWineNote(address, {
+        wineType: wineTypes.indexOf(newRecordData.wineType),
+        rating: newRecordData.rating,
+        foodPairingId: Math.max(0, foodPairings.indexOf(newRecordData.foodPairing)),
+        price: newRecordData.price,
+        tannins: newRecordData.tannins,
+        acidity: newRecordData.acidity,
+        region: regions.indexOf(newRecordData.region)
+      });
       
       setTransactionStatus({ visible: true, status: "success", message: "Encrypted wine data submitted securely!" });
       await loadRecords();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewRecordData({ 
-          wineType: "", 
-          region: "", 
-          rating: 0,
-          price: 0,
-          tannins: 0,
-          acidity: 0,
-          foodPairing: ""
-        });
+        setNewRecordData(emptyRecordData);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
@@ -248,45 +232,32 @@ const App: React.FC = () => {
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
-    if (!isConnected) { alert("Please connect wallet first"); return null; }
+  const decryptWithSignature = async (handle: string): Promise<number | null> => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      // One EIP-712 signature covers every handle of the contract until the
+      // permission window (startTimestamp + durationDays) runs out
+      let auth = decryptionAuth;
+      if (!auth || !isDecryptionAuthValid(auth, address, contractAddress)) {
+        const now = Math.floor(Date.now() / 1000);
+        const start = now < startTimestamp + durationDays * 86400 ? startTimestamp : now;
+        auth = await createDecryptionAuth(await getSigner(), [contractAddress], start, durationDays);
+        setStartTimestamp(start);
+        setDecryptionAuth(auth);
+      }
+      const results = await userDecrypt(auth, contractAddress, [handle]);
+      return Number(results[handle]);
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const recommendWine = async (recordId: string) => {
+  const recommendWine = async (record: WineRecord) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing wine data with FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Scoring wine homomorphically on-chain..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      const recordBytes = await contract.getData(`wine_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      
-      // FHE computation to determine recommendation
-      const rating = FHEDecryptNumber(recordData.rating);
-      const price = FHEDecryptNumber(recordData.price);
-      const tannins = FHEDecryptNumber(recordData.tannins);
-      const acidity = FHEDecryptNumber(recordData.acidity);
-      
-      // Simple recommendation algorithm (in real app this would be done with FHE)
-      const score = (rating * 0.5) + ((100 - price) * 0.3) + (tannins * 0.1) + (acidity * 0.1);
-      const status = score > 50 ? "recommended" : "not_recommended";
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedRecord = { ...recordData, status };
-      await contractWithSigner.setData(`wine_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "FHE recommendation completed successfully!" });
+      await scoreWineNote(record.batchId, record.noteIndex);
+      setTransactionStatus({ visible: true, status: "success", message: "FHE recommendation computed, decrypt it from the wine details" });
       await loadRecords();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
@@ -295,6 +266,102 @@ const App: React.FC = () => {
     }
   };
 
+  const analyzeBatch = async (batchId: number) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting FHE recommendation for the batch..." });
+    try {
+      await requestBatchRecommendation(batchId);
+      setTransactionStatus({ visible: true, status: "success", message: "Recommendation requested, awaiting decryption oracle" });
+      await loadRecords();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Recommendation failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const transferWine = async (record: WineRecord) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isOwner(record.owner)) { alert("Only the note's owner can transfer it"); return; }
+    const newOwner = prompt("Transfer this wine note to address:")?.trim();
+    if (!newOwner) return;
+    if (!ethers.isAddress(newOwner)) { alert("Invalid address"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Transferring wine note..." });
+    try {
+      await transferRecord(record.recordId, newOwner);
+      setTransactionStatus({ visible: true, status: "success", message: "Wine note transferred, the new owner can now decrypt it" });
+      await loadRecords();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Transfer failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const deleteWine = async (record: WineRecord) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isOwner(record.owner)) { alert("Only the note's owner can delete it"); return; }
+    if (!confirm("Delete this wine note? It stays counted in its batch and your taste profile.")) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Deleting wine note..." });
+    try {
+      await deleteRecord(record.recordId);
+      setTransactionStatus({ visible: true, status: "success", message: "Wine note deleted" });
+      await loadRecords();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Delete failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const revealTopStyle = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Computing your favourite style homomorphically..." });
+    try {
+      const handle = await computeTopStyle(address);
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      const style = await decryptWithSignature(handle);
+      if (style !== null) setTopStyle(style);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Profile analysis failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const suggestBottle = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Matching your profile against the catalog..." });
+    try {
+      const handle = await findBestMatch(address);
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      const wineId = await decryptWithSignature(handle);
+      if (wineId !== null) setSuggestedWine(catalog.find(w => w.id === wineId) ?? null);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Catalog matching failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const pairDinner = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting your dish and pairing it with FHE..." });
+    try {
+      const handle = await pairWineForDish(address, dinnerDish);
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      const wineType = await decryptWithSignature(handle);
+      if (wineType !== null) setDinnerPairing(wineType);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Pairing failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const setVerdict = (recordId: string, recommended: boolean) => {
+    const status = recommended ? "recommended" : "not_recommended";
+    setRecords(prev => prev.map(r => r.id === recordId ? { ...r, status } : r));
+    setSelectedRecord(prev => prev && prev.id === recordId ? { ...prev, status } : prev);
+  };
+
   const isOwner = (recordAddress: string) => address?.toLowerCase() === recordAddress.toLowerCase();
 
   const tutorialSteps = [
@@ -392,31 +459,39 @@ const App: React.FC = () => {
           {renderStatsCards()}
         </div>
         
+        {isConnected && (
+          <div className="dashboard-section">
+            <h2>What to Drink Tonight</h2>
+            <div className="taste-profile">
+              <select value={dinnerDish} onChange={(e) => { setDinnerDish(parseInt(e.target.value)); setDinnerPairing(null); }}>
+                {foodPairings.map((dish, id) => (
+                  <option key={dish} value={id}>{dish}</option>
+                ))}
+              </select>
+              <span>{dinnerPairing !== null ? `Pour a ${wineTypes[dinnerPairing]}` : "🔒 Dish stays encrypted"}</span>
+              <button className="recommend-btn" onClick={pairDinner} disabled={isDecrypting}>
+                {isDecrypting ? "Decrypting..." : "Pair"}
+              </button>
+            </div>
+          </div>
+        )}
+        
         <div className="search-filters">
           <div className="search-box">
             <input 
               type="text" 
-              placeholder="Search wines..." 
+              placeholder="Search by owner or batch #..." 
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
             <div className="search-icon">🔍</div>
           </div>
           <div className="filter-group">
-            <label>Type:</label>
-            <select value={filterType} onChange={(e) => setFilterType(e.target.value)}>
-              <option value="all">All Types</option>
-              {wineTypes.map(type => (
-                <option key={type} value={type}>{type}</option>
-              ))}
-            </select>
-          </div>
-          <div className="filter-group">
-            <label>Region:</label>
-            <select value={filterRegion} onChange={(e) => setFilterRegion(e.target.value)}>
-              <option value="all">All Regions</option>
-              {regions.map(region => (
-                <option key={region} value={region}>{region}</option>
+            <label>Batch:</label>
+            <select value={filterBatch} onChange={(e) => setFilterBatch(e.target.value)}>
+              <option value="all">All Batches</option>
+              {batchIds.map(batchId => (
+                <option key={batchId} value={batchId.toString()}>#{batchId}</option>
               ))}
             </select>
           </div>
@@ -443,19 +518,38 @@ const App: React.FC = () => {
               {filteredRecords.map(wine => (
                 <div className="wine-card" key={wine.id} onClick={() => setSelectedRecord(wine)}>
                   <div className="wine-header">
-                    <div className="wine-type">{wine.wineType}</div>
+                    <div className="wine-type">🔒 Encrypted style</div>
                     <div className={`status-badge ${wine.status}`}>
                       {wine.status === "recommended" ? "👍 Recommended" : 
-                       wine.status === "not_recommended" ? "👎 Not Recommended" : "⏳ Pending"}
+                       wine.status === "not_recommended" ? "👎 Not Recommended" : 
+                       wine.status === "scored" ? "🔒 Scored" : "⏳ Pending"}
                     </div>
                   </div>
-                  <div className="wine-region">{wine.region}</div>
+                  <div className="wine-region">Batch #{wine.batchId} · {wine.batchStatus === "analyzed" ? "Analyzed" : wine.batchStatus === "closed" ? "Closed" : "Open"}</div>
+                  {wine.batchTopWineType !== undefined && (
+                    <div className="wine-region">Batch favourite: {wineTypes[wine.batchTopWineType]}</div>
+                  )}
                   <div className="wine-date">{new Date(wine.timestamp * 1000).toLocaleDateString()}</div>
                   {isOwner(wine.owner) && wine.status === "pending" && (
-                    <button className="recommend-btn" onClick={(e) => { e.stopPropagation(); recommendWine(wine.id); }}>
+                    <button className="recommend-btn" onClick={(e) => { e.stopPropagation(); recommendWine(wine); }}>
                       Get Recommendation
                     </button>
                   )}
+                  {canAnalyze && wine.batchStatus === "closed" && wine.batchMeetsThreshold && (
+                    <button className="recommend-btn" onClick={(e) => { e.stopPropagation(); analyzeBatch(wine.batchId); }}>
+                      Analyze Batch
+                    </button>
+                  )}
+                  {isOwner(wine.owner) && (
+                    <div className="record-actions">
+                      <button className="recommend-btn" onClick={(e) => { e.stopPropagation(); transferWine(wine); }}>
+                        Transfer
+                      </button>
+                      <button className="recommend-btn" onClick={(e) => { e.stopPropagation(); deleteWine(wine); }}>
+                        Delete
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -465,14 +559,33 @@ const App: React.FC = () => {
         {userHistory.length > 0 && (
           <div className="history-section">
             <h2>Your Tasting History</h2>
+            <div className="taste-profile">
+              <span>Your favourite style: {topStyle !== null ? wineTypes[topStyle] : "🔒 Encrypted"}</span>
+              <button className="recommend-btn" onClick={revealTopStyle} disabled={isDecrypting}>
+                {isDecrypting ? "Decrypting..." : topStyle !== null ? "Refresh" : "Reveal"}
+              </button>
+            </div>
+            {catalog.some(w => w.active) && (
+              <div className="taste-profile">
+                <span>
+                  Suggested bottle: {suggestedWine
+                    ? `${suggestedWine.name} · ${wineTypes[suggestedWine.wineType]}, ${regions[suggestedWine.region] ?? "Other"}, ${priceBands[suggestedWine.priceBand]}`
+                    : "🔒 Encrypted"}
+                </span>
+                <button className="recommend-btn" onClick={suggestBottle} disabled={isDecrypting}>
+                  {isDecrypting ? "Decrypting..." : suggestedWine ? "Refresh" : "Find a bottle"}
+                </button>
+              </div>
+            )}
             <div className="history-cards">
               {userHistory.map(wine => (
                 <div className="history-card" key={wine.id}>
-                  <div className="history-wine">{wine.wineType} from {wine.region}</div>
+                  <div className="history-wine">Note #{wine.noteIndex} in batch #{wine.batchId}</div>
                   <div className="history-date">{new Date(wine.timestamp * 1000).toLocaleString()}</div>
                   <div className={`history-status ${wine.status}`}>
                     {wine.status === "recommended" ? "Recommended" : 
-                     wine.status === "not_recommended" ? "Not Recommended" : "Pending Review"}
+                     wine.status === "not_recommended" ? "Not Recommended" : 
+                     wine.status === "scored" ? "Verdict Encrypted" : "Pending Review"}
                   </div>
                 </div>
               ))}
@@ -490,6 +603,7 @@ const App: React.FC = () => {
           setRecordData={setNewRecordData}
           wineTypes={wineTypes}
           regions={regions}
+          foodPairings={foodPairings}
         />
       )}
       
@@ -501,6 +615,13 @@ const App: React.FC = () => {
           setDecryptedValues={setDecryptedValues} 
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
+          wineTypes={wineTypes}
+          regions={regions}
+          foodPairings={foodPairings}
+          isOwner={isOwner(selectedRecord.owner)}
+          onVerdict={(recommended) => setVerdict(selectedRecord.id, recommended)}
+          onTransfer={() => { const record = selectedRecord; setSelectedRecord(null); setDecryptedValues({}); transferWine(record); }}
+          onDelete={() => { const record = selectedRecord; setSelectedRecord(null); setDecryptedValues({}); deleteWine(record); }}
         />
       )}
       
@@ -547,6 +668,7 @@ interface ModalCreateProps {
   setRecordData: (data: any) => void;
   wineTypes: string[];
   regions: string[];
+  foodPairings: string[];
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -556,7 +678,8 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   recordData, 
   setRecordData,
   wineTypes,
-  regions
+  regions,
+  foodPairings
 }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -573,6 +696,10 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
       alert("Please select wine type and region"); 
       return; 
     }
+    if (!Number.isFinite(recordData.price) || recordData.price < 0 || toCents(recordData.price) > 0xffffffff) {
+      alert("Please enter a valid price");
+      return;
+    }
     onSubmit();
   };
 
@@ -676,25 +803,31 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           
           <div className="form-group">
             <label>Food Pairing</label>
-            <input 
-              type="text" 
+            <select 
               name="foodPairing" 
               value={recordData.foodPairing} 
               onChange={handleChange}
-              placeholder="What food would you pair with this wine?"
-            />
+            >
+              {foodPairings.map(dish => (
+                <option key={dish} value={dish}>{dish}</option>
+              ))}
+            </select>
           </div>
           
           <div className="encryption-preview">
             <h4>Encryption Preview</h4>
             <div className="preview-grid">
+              <div className="preview-item">
+                <span>Wine Type:</span>
+                <div>{recordData.wineType ? '🔒 euint8 handle + input proof' : 'Not set'}</div>
+              </div>
               <div className="preview-item">
                 <span>Rating:</span>
-                <div>{recordData.rating ? FHEEncryptNumber(recordData.rating).substring(0, 20) + '...' : 'Not set'}</div>
+                <div>{recordData.rating ? '🔒 euint8 handle + input proof' : 'Not set'}</div>
               </div>
               <div className="preview-item">
                 <span>Price:</span>
-                <div>{recordData.price ? FHEEncryptNumber(recordData.price).substring(0, 20) + '...' : 'Not set'}</div>
+                <div>{recordData.price ? '🔒 euint32 handle + input proof' : 'Not set'}</div>
               </div>
             </div>
           </div>
@@ -714,10 +847,18 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
 interface RecordDetailModalProps {
   record: WineRecord;
   onClose: () => void;
-  decryptedValues: {rating?: number, price?: number, tannins?: number, acidity?: number};
-  setDecryptedValues: (values: {rating?: number, price?: number, tannins?: number, acidity?: number}) => void;
+  decryptedValues: DecryptedValues;
+  setDecryptedValues: (values: DecryptedValues) => void;
   isDecrypting: boolean;
   decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  wineTypes: string[];
+  regions: string[];
+  foodPairings: string[];
+  // Only the current owner may decrypt the note or move it
+  isOwner: boolean;
+  onVerdict: (recommended: boolean) => void;
+  onTransfer: () => void;
+  onDelete: () => void;
 }
 
 const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ 
@@ -726,12 +867,29 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
   decryptedValues, 
   setDecryptedValues, 
   isDecrypting, 
-  decryptWithSignature 
+  decryptWithSignature,
+  wineTypes,
+  regions,
+  foodPairings,
+  isOwner,
+  onVerdict,
+  onTransfer,
+  onDelete
 }) => {
-  const handleDecrypt = async (field: string, encryptedValue: string) => {
-    if (decryptedValues[field as keyof typeof decryptedValues] !== undefined) {
+  const fields: { key: keyof DecryptedValues; label: string; handle: string; format: (v: number) => string }[] = [
+    { key: "wineType", label: "Wine Type", handle: record.encryptedWineType, format: v => wineTypes[v] ?? v.toString() },
+    { key: "region", label: "Region", handle: record.encryptedRegion, format: v => regions[v] ?? v.toString() },
+    { key: "rating", label: "Rating", handle: record.encryptedRating, format: v => v.toString() },
+    { key: "price", label: "Price", handle: record.encryptedPrice, format: v => `$${(v / 100).toFixed(2)}` },
+    { key: "tannins", label: "Tannins", handle: record.encryptedTannins, format: v => `${v}/10` },
+    { key: "acidity", label: "Acidity", handle: record.encryptedAcidity, format: v => `${v}/10` },
+    { key: "foodPairing", label: "Food Pairing", handle: record.encryptedFoodPairing, format: v => foodPairings[v] ?? v.toString() }
+  ];
+
+  const handleDecrypt = async (field: keyof DecryptedValues, encryptedValue: string) => {
+    if (decryptedValues[field] !== undefined) {
       const newValues = {...decryptedValues};
-      delete newValues[field as keyof typeof decryptedValues];
+      delete newValues[field];
       setDecryptedValues(newValues);
       return;
     }
@@ -739,6 +897,7 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
     const decrypted = await decryptWithSignature(encryptedValue);
     if (decrypted !== null) {
       setDecryptedValues({...decryptedValues, [field]: decrypted});
+      if (field === "recommendation") onVerdict(decrypted === 1);
     }
   };
 
@@ -753,12 +912,16 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
         <div className="modal-body">
           <div className="wine-info">
             <div className="info-item">
-              <span>Type:</span>
-              <strong>{record.wineType}</strong>
+              <span>Batch:</span>
+              <strong>#{record.batchId} (note #{record.noteIndex})</strong>
+            </div>
+            <div className="info-item">
+              <span>Provider:</span>
+              <strong>{record.provider.substring(0, 6)}...{record.provider.substring(38)}</strong>
             </div>
             <div className="info-item">
-              <span>Region:</span>
-              <strong>{record.region}</strong>
+              <span>Owner:</span>
+              <strong>{record.owner.substring(0, 6)}...{record.owner.substring(38)}</strong>
             </div>
             <div className="info-item">
               <span>Added:</span>
@@ -768,7 +931,8 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <span>Status:</span>
               <strong className={`status-badge ${record.status}`}>
                 {record.status === "recommended" ? "Recommended" : 
-                 record.status === "not_recommended" ? "Not Recommended" : "Pending"}
+                 record.status === "not_recommended" ? "Not Recommended" : 
+                 record.status === "scored" ? "Scored" : "Pending"}
               </strong>
             </div>
           </div>
@@ -776,65 +940,41 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
           <div className="encrypted-data-section">
             <h3>Encrypted Wine Data</h3>
             
-            <div className="encrypted-field">
-              <span>Rating:</span>
-              <div className="encrypted-value">{record.encryptedRating.substring(0, 30)}...</div>
-              <button 
-                onClick={() => handleDecrypt("rating", record.encryptedRating)} 
-                disabled={isDecrypting}
-              >
-                {isDecrypting ? "Decrypting..." : 
-                 decryptedValues.rating !== undefined ? "Hide" : "Decrypt"}
-              </button>
-              {decryptedValues.rating !== undefined && (
-                <div className="decrypted-value">{decryptedValues.rating}</div>
-              )}
-            </div>
-            
-            <div className="encrypted-field">
-              <span>Price:</span>
-              <div className="encrypted-value">{record.encryptedPrice.substring(0, 30)}...</div>
-              <button 
-                onClick={() => handleDecrypt("price", record.encryptedPrice)} 
-                disabled={isDecrypting}
-              >
-                {isDecrypting ? "Decrypting..." : 
-                 decryptedValues.price !== undefined ? "Hide" : "Decrypt"}
-              </button>
-              {decryptedValues.price !== undefined && (
-                <div className="decrypted-value">${decryptedValues.price.toFixed(2)}</div>
-              )}
-            </div>
-            
-            <div className="encrypted-field">
-              <span>Tannins:</span>
-              <div className="encrypted-value">{record.encryptedTannins.substring(0, 30)}...</div>
-              <button 
-                onClick={() => handleDecrypt("tannins", record.encryptedTannins)} 
-                disabled={isDecrypting}
-              >
-                {isDecrypting ? "Decrypting..." : 
-                 decryptedValues.tannins !== undefined ? "Hide" : "Decrypt"}
-              </button>
-              {decryptedValues.tannins !== undefined && (
-                <div className="decrypted-value">{decryptedValues.tannins}/10</div>
-              )}
-            </div>
+            {fields.map(({ key, label, handle, format }) => (
+              <div className="encrypted-field" key={key}>
+                <span>{label}:</span>
+                <div className="encrypted-value">{handle.substring(0, 30)}...</div>
+                {isOwner && (
+                  <button 
+                    onClick={() => handleDecrypt(key, handle)} 
+                    disabled={isDecrypting}
+                  >
+                    {isDecrypting ? "Decrypting..." : 
+                     decryptedValues[key] !== undefined ? "Hide" : "Decrypt"}
+                  </button>
+                )}
+                {decryptedValues[key] !== undefined && (
+                  <div className="decrypted-value">{format(decryptedValues[key]!)}</div>
+                )}
+              </div>
+            ))}
             
-            <div className="encrypted-field">
-              <span>Acidity:</span>
-              <div className="encrypted-value">{record.encryptedAcidity.substring(0, 30)}...</div>
-              <button 
-                onClick={() => handleDecrypt("acidity", record.encryptedAcidity)} 
-                disabled={isDecrypting}
-              >
-                {isDecrypting ? "Decrypting..." : 
-                 decryptedValues.acidity !== undefined ? "Hide" : "Decrypt"}
-              </button>
-              {decryptedValues.acidity !== undefined && (
-                <div className="decrypted-value">{decryptedValues.acidity}/10</div>
-              )}
-            </div>
+            {isOwner && record.status !== "pending" && (
+              <div className="encrypted-field">
+                <span>Verdict:</span>
+                <div className="encrypted-value">{record.encryptedRecommendation.substring(0, 30)}...</div>
+                <button 
+                  onClick={() => handleDecrypt("recommendation", record.encryptedRecommendation)} 
+                  disabled={isDecrypting}
+                >
+                  {isDecrypting ? "Decrypting..." : 
+                   decryptedValues.recommendation !== undefined ? "Hide" : "Decrypt"}
+                </button>
+                {decryptedValues.recommendation !== undefined && (
+                  <div className="decrypted-value">{decryptedValues.recommendation === 1 ? "👍 Recommended" : "👎 Not Recommended"}</div>
+                )}
+              </div>
+            )}
             
             <div className="fhe-tag">
               <div className="fhe-icon">🔒</div>
@@ -844,6 +984,12 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
         </div>
         
         <div className="modal-footer">
+          {isOwner && (
+            <div className="record-actions">
+              <button onClick={onTransfer} className="recommend-btn">Transfer</button>
+              <button onClick={onDelete} className="recommend-btn">Delete</button>
+            </div>
+          )}
           <button onClick={onClose} className="close-btn">Close</button>
         </div>
       </div>
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\auth.rs
-// Generated at: 2025-10-21T14:54:01.231Z
\ No newline at end of file
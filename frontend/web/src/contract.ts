@@ -1,7 +1,8 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import abiJson from "./abi/AISommelierFHE.json";
 import configJson from "./config.json";
+import type { AISommelierFHE } from "./sommelier";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
@@ -49,10 +50,10 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<AISommelierFHE | null> {
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const contract = new ethers.Contract(config.contractAddress, ABI, provider) as unknown as AISommelierFHE;
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -66,14 +67,18 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner(): Promise<AISommelierFHE> {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getSigner();
+    const contract = new ethers.Contract(config.contractAddress, ABI, signer) as unknown as AISommelierFHE;
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -0,0 +1,147 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+
+export interface WineNoteInput {
+  wineType: number;
+  rating: number;
+  foodPairingId: number;
+  userId: number;
+  price: number;
+  tannins: number;
+  acidity: number;
+  region: number;
+}
+
+export interface EncryptedWineNote {
+  wineType: string;
+  rating: string;
+  foodPairingId: string;
+  userId: string;
+  price: string;
+  tannins: string;
+  acidity: string;
+  region: string;
+  inputProof: string;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (!window.ethereum) {
+        throw new Error("No injected wallet");
+      }
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: window.ethereum });
+    })();
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+// Prices are entered in dollars; they are encrypted as whole cents so the
+// ciphertext stays an integer.
+export const toCents = (price: number) => Math.max(0, Math.round(price * 100));
+
+// Order and bit widths must match AISommelierFHE.submitEncryptedWineNote
+export async function encryptWineNote(
+  contractAddress: string,
+  userAddress: string,
+  note: WineNoteInput
+): Promise<EncryptedWineNote> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add8(note.wineType);
+  input.add8(Math.round(note.rating));
+  input.add8(note.foodPairingId);
+  input.add32(note.userId);
+  input.add32(toCents(note.price));
+  input.add8(Math.round(note.tannins));
+  input.add8(Math.round(note.acidity));
+  input.add8(note.region);
+
+  const { handles, inputProof } = await input.encrypt();
+  const [wineType, rating, foodPairingId, userId, price, tannins, acidity, region] = handles.map(h => ethers.hexlify(h));
+  return {
+    wineType,
+    rating,
+    foodPairingId,
+    userId,
+    price,
+    tannins,
+    acidity,
+    region,
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export async function encryptFoodPairing(
+  contractAddress: string,
+  userAddress: string,
+  foodPairingId: number
+): Promise<{ handle: string; inputProof: string }> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add8(foodPairingId);
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+export interface UserDecryptionAuth {
+  userAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export const isDecryptionAuthValid = (auth: UserDecryptionAuth | null, userAddress: string, contractAddress: string) =>
+  !!auth &&
+  auth.userAddress.toLowerCase() === userAddress.toLowerCase() &&
+  auth.contractAddresses.some(a => a.toLowerCase() === contractAddress.toLowerCase()) &&
+  Date.now() / 1000 < auth.startTimestamp + auth.durationDays * 86400;
+
+// Generates a throwaway keypair and has the user sign the EIP-712 request that
+// lets the KMS re-encrypt handles of the given contracts under that key.
+export async function createDecryptionAuth(
+  signer: ethers.Signer,
+  contractAddresses: string[],
+  startTimestamp: number,
+  durationDays: number
+): Promise<UserDecryptionAuth> {
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  return {
+    userAddress: await signer.getAddress(),
+    publicKey,
+    privateKey,
+    signature,
+    contractAddresses,
+    startTimestamp,
+    durationDays
+  };
+}
+
+export async function userDecrypt(auth: UserDecryptionAuth, contractAddress: string, handles: string[]) {
+  const instance = await getFhevmInstance();
+  return instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    auth.privateKey,
+    auth.publicKey,
+    auth.signature,
+    auth.contractAddresses,
+    auth.userAddress,
+    auth.startTimestamp,
+    auth.durationDays
+  );
+}
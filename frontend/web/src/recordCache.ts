@@ -0,0 +1,59 @@
+// recordCache.ts
+import type { WineNote } from "./sommelier";
+
+const DB_NAME = "ai-sommelier";
+const DB_VERSION = 1;
+const STORE = "recordSnapshots";
+
+// Live records of one deployment as of `block`; later changes come from logs.
+export interface RecordSnapshot {
+  key: string;
+  block: number;
+  blockHash: string; // Detects a reorg that dropped `block` since the snapshot
+  notes: WineNote[];
+}
+
+// Keyed by chain and contract so a redeploy or network switch starts fresh
+export const snapshotKey = (chainId: bigint, contractAddress: string) =>
+  `${chainId}:${contractAddress.toLowerCase()}`;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "key" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// The cache is only a speed-up: when IndexedDB is unavailable (private
+// browsing, blocked storage) callers simply sync from scratch.
+export async function readSnapshot(key: string): Promise<RecordSnapshot | undefined> {
+  try {
+    return await withStore<RecordSnapshot | undefined>("readonly", store => store.get(key));
+  } catch (e) {
+    console.warn("Record cache unavailable:", e);
+    return undefined;
+  }
+}
+
+export async function writeSnapshot(snapshot: RecordSnapshot): Promise<void> {
+  try {
+    await withStore("readwrite", store => store.put(snapshot));
+  } catch (e) {
+    console.warn("Failed to cache records:", e);
+  }
+}
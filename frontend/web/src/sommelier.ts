@@ -0,0 +1,272 @@
+// sommelier.ts
+import { ethers } from "ethers";
+import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { encryptFoodPairing, encryptWineNote, WineNoteInput } from "./fhevm";
+import { readSnapshot, snapshotKey, writeSnapshot } from "./recordCache";
+import type { AISommelierFHE } from "../../../types/contracts/AI_Sommelier_Fhe.sol/AISommelierFHE";
+
+export type { AISommelierFHE };
+
+export interface EncryptedWineNoteHandles {
+  wineType: string;
+  rating: string;
+  foodPairingId: string;
+  userId: string;
+  price: string;
+  tannins: string;
+  acidity: string;
+  region: string;
+}
+
+export interface WineNote extends EncryptedWineNoteHandles {
+  recordId: number;
+  batchId: number;
+  noteIndex: number;
+  provider: string;
+  owner: string;
+  timestamp: number;
+  recommendation: string;
+}
+
+export interface BatchRecommendation {
+  scores: number[];
+  topWineType: number;
+}
+
+export interface BatchState {
+  closed: boolean;
+  meetsPrivacyThreshold: boolean;
+  recommendation?: BatchRecommendation;
+}
+
+export interface CatalogWine {
+  id: number;
+  name: string;
+  wineType: number;
+  region: number;
+  tannins: number;
+  acidity: number;
+  priceBand: number;
+  active: boolean;
+}
+
+// Records per getRecords call, small enough for a node's eth_call gas cap
+const RECORDS_PAGE_SIZE = 50;
+// Blocks per eth_getLogs call, within the range public RPCs accept
+const LOG_SCAN_CHUNK = 5000;
+
+// The contract keys notes by an encrypted 32-bit user id; derive a stable one
+// from the wallet address so the same user always maps to the same id.
+export const toUserId = (address: string) => Number(BigInt(address) & 0xffffffffn);
+
+export async function submitWineNote(userAddress: string, note: Omit<WineNoteInput, "userId">) {
+  const contract = await getContractWithSigner();
+  const encrypted = await encryptWineNote(await contract.getAddress(), userAddress, {
+    ...note,
+    userId: toUserId(userAddress)
+  });
+  const tx = await contract.submitEncryptedWineNote(
+    encrypted.wineType,
+    encrypted.rating,
+    encrypted.foodPairingId,
+    encrypted.userId,
+    encrypted.price,
+    encrypted.tannins,
+    encrypted.acidity,
+    encrypted.region,
+    encrypted.inputProof
+  );
+  const receipt = await tx.wait();
+  const submitted = receipt?.logs
+    .map(log => contract.interface.parseLog(log))
+    .find(event => event?.name === "WineNoteSubmitted");
+  if (!submitted) throw new Error("WineNoteSubmitted event not found");
+  return { batchId: Number(submitted.args.batchId), noteIndex: Number(submitted.args.noteIndex) };
+}
+
+// The verdict is computed homomorphically from the stored tasting profile; only
+// the submitter is allowed to decrypt the resulting ebool.
+export async function scoreWineNote(batchId: number, noteIndex: number) {
+  const contract = await getContractWithSigner();
+  const tx = await contract.scoreWineNote(batchId, noteIndex);
+  return tx.wait();
+}
+
+// Recomputes the encrypted favourite wine type from the caller's running
+// profile and returns its handle, decryptable only by the caller.
+export async function computeTopStyle(userAddress: string) {
+  const contract = await getContractWithSigner();
+  const tx = await contract.getMyTopStyle();
+  await tx.wait();
+  return contract.getTopStyle(userAddress);
+}
+
+// Matches the caller's encrypted profile against the plaintext catalog; the
+// returned handle is the encrypted index of the closest wine.
+export async function findBestMatch(userAddress: string) {
+  const contract = await getContractWithSigner();
+  const tx = await contract.findMyBestMatch();
+  await tx.wait();
+  return contract.getBestMatch(userAddress);
+}
+
+// The dish stays encrypted end to end; the answer is the encrypted wine type
+// that best suits it given the pairing table and the caller's history.
+export async function pairWineForDish(userAddress: string, foodPairingId: number) {
+  const contract = await getContractWithSigner();
+  const encrypted = await encryptFoodPairing(await contract.getAddress(), userAddress, foodPairingId);
+  const tx = await contract.pairWineForDish(encrypted.handle, encrypted.inputProof);
+  await tx.wait();
+  return contract.getDishPairing(userAddress);
+}
+
+// The contract only lets the record's current owner move or delete it.
+export async function transferRecord(recordId: number, newOwner: string) {
+  const contract = await getContractWithSigner();
+  const tx = await contract.transferRecord(recordId, newOwner);
+  return tx.wait();
+}
+
+export async function deleteRecord(recordId: number) {
+  const contract = await getContractWithSigner();
+  const tx = await contract.deleteRecord(recordId);
+  return tx.wait();
+}
+
+export async function loadCatalog(): Promise<CatalogWine[]> {
+  const contract = await getContractReadOnly();
+  if (!contract) return [];
+  const length = Number(await contract.catalogLength());
+  return Promise.all(
+    Array.from({ length }, async (_, id) => {
+      const wine = await contract.catalog(id);
+      return {
+        id,
+        name: wine.name,
+        wineType: Number(wine.wineType),
+        region: Number(wine.region),
+        tannins: Number(wine.tannins),
+        acidity: Number(wine.acidity),
+        priceBand: Number(wine.priceBand),
+        active: wine.active
+      };
+    })
+  );
+}
+
+// requestRecommendation is gated on PROVIDER_ROLE, not on owning a record
+export async function isProvider(account: string): Promise<boolean> {
+  const contract = await getContractReadOnly();
+  return contract ? contract.isProvider(account) : false;
+}
+
+export async function requestBatchRecommendation(batchId: number) {
+  const contract = await getContractWithSigner();
+  const tx = await contract.requestRecommendation(batchId);
+  return tx.wait();
+}
+
+const toWineNote = (record: AISommelierFHE.WineRecordStructOutput): WineNote => ({
+  recordId: Number(record.recordId),
+  batchId: Number(record.batchId),
+  noteIndex: Number(record.noteIndex),
+  provider: record.provider,
+  owner: record.owner,
+  timestamp: Number(record.timestamp),
+  wineType: record.note.wineType,
+  rating: record.note.rating,
+  foodPairingId: record.note.foodPairingId,
+  userId: record.note.userId,
+  price: record.note.price,
+  tannins: record.note.tannins,
+  acidity: record.note.acidity,
+  region: record.note.region,
+  recommendation: record.recommendation
+});
+
+// Without a cached snapshot the registry is read page by page; afterwards only
+// records named in RecordCreated / RecordUpdated logs since the snapshot block
+// are fetched again. Every read is pinned to one block so the snapshot and the
+// next log scan line up.
+async function syncRecords(contract: AISommelierFHE): Promise<WineNote[]> {
+  const provider = contract.runner!.provider!;
+  const [headBlock, network] = await Promise.all([provider.getBlock("latest"), provider.getNetwork()]);
+  const head = headBlock!.number;
+  const key = snapshotKey(network.chainId, await contract.getAddress());
+  const cached = await readSnapshot(key);
+  // A snapshot block that is ahead of the chain or has a different hash was
+  // reorganised away (or a local node was reset), so its records may be stale
+  const cachedBlock = cached && cached.block <= head ? await provider.getBlock(cached.block) : null;
+  const notes = new Map<number, WineNote>();
+
+  const apply = (record: AISommelierFHE.WineRecordStructOutput) => {
+    // Deleted records keep their slot in the registry with a zero owner
+    if (record.owner === ethers.ZeroAddress) notes.delete(Number(record.recordId));
+    else notes.set(Number(record.recordId), toWineNote(record));
+  };
+
+  if (!cached || cachedBlock?.hash !== cached.blockHash) {
+    const total = Number(await contract.recordCount({ blockTag: head }));
+    const pages = await Promise.all(
+      Array.from({ length: Math.ceil(total / RECORDS_PAGE_SIZE) }, (_, page) =>
+        contract.getRecords(page * RECORDS_PAGE_SIZE, RECORDS_PAGE_SIZE, { blockTag: head })
+      )
+    );
+    pages.flat().forEach(apply);
+  } else {
+    cached.notes.forEach(note => notes.set(note.recordId, note));
+    const changed = new Set<number>();
+    for (let from = cached.block + 1; from <= head; from += LOG_SCAN_CHUNK) {
+      const to = Math.min(from + LOG_SCAN_CHUNK - 1, head);
+      const [created, updated] = await Promise.all([
+        contract.queryFilter(contract.filters.RecordCreated(), from, to),
+        contract.queryFilter(contract.filters.RecordUpdated(), from, to)
+      ]);
+      [...created, ...updated].forEach(e => changed.add(Number(e.args.recordId)));
+    }
+    const fresh = await Promise.all([...changed].map(id => contract.getRecords(id, 1, { blockTag: head })));
+    fresh.flat().forEach(apply);
+  }
+
+  const synced = [...notes.values()];
+  await writeSnapshot({ key, block: head, blockHash: headBlock!.hash!, notes: synced });
+  return synced;
+}
+
+// Calls onChange whenever a record is created or updated on-chain and returns
+// a function that stops listening.
+export async function subscribeToRecords(onChange: () => void): Promise<() => void> {
+  const contract = await getContractReadOnly();
+  if (!contract) return () => {};
+  await contract.on(contract.getEvent("RecordCreated"), onChange);
+  await contract.on(contract.getEvent("RecordUpdated"), onChange);
+  return () => {
+    contract.removeAllListeners();
+  };
+}
+
+export async function loadWineNotes(): Promise<{ notes: WineNote[]; batches: Map<number, BatchState> }> {
+  const contract = await getContractReadOnly();
+  if (!contract) return { notes: [], batches: new Map() };
+
+  const notes = await syncRecords(contract);
+
+  const batches = new Map<number, BatchState>();
+  await Promise.all(
+    [...new Set(notes.map(n => n.batchId))].map(async batchId => {
+      const [closed, analyzed, meetsPrivacyThreshold] = await Promise.all([
+        contract.isBatchClosed(batchId),
+        contract.isBatchAnalyzed(batchId),
+        contract.meetsPrivacyThreshold(batchId)
+      ]);
+      const batch: BatchState = { closed, meetsPrivacyThreshold };
+      if (analyzed) {
+        const { scores, topWineType } = await contract.getBatchRecommendation(batchId);
+        batch.recommendation = { scores: scores.map(Number), topWineType: Number(topWineType) };
+      }
+      batches.set(batchId, batch);
+    })
+  );
+
+  return { notes, batches };
+}
@@ -0,0 +1,13 @@
+// abi.ts
+// The slice of the AISommelierFHE ABI the indexer reads. Kept as
+// human-readable fragments so the service does not depend on a compile.
+export const AI_SOMMELIER_ABI = [
+  "event RecordCreated(uint256 indexed recordId, address indexed owner, uint256 batchId, uint256 noteIndex)",
+  "event RecordUpdated(uint256 indexed recordId, address indexed owner)",
+  "event BatchOpened(uint256 batchId)",
+  "event BatchClosed(uint256 batchId)",
+  "event WineNoteSubmitted(address indexed provider, uint256 batchId, uint256 noteIndex)",
+  "event RecommendationRequested(uint256 indexed requestId, uint256 batchId)",
+  "event RecommendationCompleted(uint256 indexed requestId, uint256 batchId, uint256[] recommendationResults)",
+  "function getRecords(uint256 offset, uint256 limit) view returns (tuple(uint256 recordId, uint256 batchId, uint256 noteIndex, address provider, address owner, uint256 timestamp, tuple(bytes32 wineType, bytes32 rating, bytes32 foodPairingId, bytes32 userId, bytes32 price, bytes32 tannins, bytes32 acidity, bytes32 region) note, bytes32 recommendation)[])",
+];
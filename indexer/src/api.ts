@@ -0,0 +1,104 @@
+// api.ts
+import express, { Request, Response } from "express";
+import { isAddress } from "ethers";
+import type { Store } from "./db";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+class BadRequest extends Error {}
+
+function intParam(value: unknown, name: string, fallback?: number): number {
+  if (value === undefined && fallback !== undefined) return fallback;
+  const parsed = Number(value);
+  if (
+    typeof value !== "string" ||
+    value === "" ||
+    !Number.isInteger(parsed) ||
+    parsed < 0
+  ) {
+    throw new BadRequest(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+function addressParam(value: unknown): string {
+  if (typeof value !== "string" || !isAddress(value))
+    throw new BadRequest("Invalid address");
+  return value;
+}
+
+function pageParams(req: Request) {
+  const offset = intParam(req.query.offset, "offset", 0);
+  const limit = Math.min(
+    intParam(req.query.limit, "limit", DEFAULT_PAGE_SIZE),
+    MAX_PAGE_SIZE,
+  );
+  return { offset, limit };
+}
+
+// Wraps a handler so bad parameters become 400s and lookups that return
+// nothing become 404s.
+const handle =
+  (fn: (req: Request) => unknown) => (req: Request, res: Response) => {
+    try {
+      const body = fn(req);
+      if (body === undefined) res.status(404).json({ error: "Not found" });
+      else res.json(body);
+    } catch (e) {
+      if (!(e instanceof BadRequest)) throw e;
+      res.status(400).json({ error: e.message });
+    }
+  };
+
+export function createApi(store: Store, status: () => object) {
+  const app = express();
+
+  // Read-only data that is public on chain anyway, so any origin may read it
+  app.use((_req, res, next) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    next();
+  });
+
+  app.get("/status", handle(status));
+
+  // ?owner=0x… and ?batch=<id> narrow the listing; deleted records are left out
+  app.get(
+    "/records",
+    handle((req) =>
+      store.listRecords({
+        ...pageParams(req),
+        owner:
+          req.query.owner === undefined
+            ? undefined
+            : addressParam(req.query.owner),
+        batchId:
+          req.query.batch === undefined
+            ? undefined
+            : intParam(req.query.batch, "batch"),
+      }),
+    ),
+  );
+
+  app.get(
+    "/records/:id",
+    handle((req) => store.getRecord(intParam(req.params.id, "id"))),
+  );
+
+  app.get(
+    "/owners/:address/records",
+    handle((req) =>
+      store.listRecords({
+        ...pageParams(req),
+        owner: addressParam(req.params.address),
+      }),
+    ),
+  );
+
+  app.get(
+    "/batches/:id",
+    handle((req) => store.getBatch(intParam(req.params.id, "id"))),
+  );
+
+  return app;
+}
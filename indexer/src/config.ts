@@ -0,0 +1,63 @@
+// config.ts
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+
+export interface IndexerConfig {
+  network: string;
+  rpcUrl: string;
+  contractAddress: string;
+  startBlock: number;
+  confirmations: number;
+  pollIntervalMs: number;
+  logChunkSize: number;
+  dbPath: string;
+  port: number;
+}
+
+const ROOT = path.resolve(__dirname, "..", "..");
+
+// Written by the hardhat-deploy script, see deploy/deploy.ts
+function readManifest(
+  network: string,
+): { address: string; blockNumber?: number } | undefined {
+  const file = path.join(ROOT, "deployments", `${network}.manifest.json`);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8")).contracts?.AISommelierFHE;
+}
+
+const intEnv = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0)
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  return parsed;
+};
+
+// Defaults target `npx hardhat node` with `npm run deploy:localhost`; every
+// value can be overridden from the environment or indexer/.env.
+export function loadConfig(): IndexerConfig {
+  const network = process.env.NETWORK || "localhost";
+  const manifest = readManifest(network);
+  const contractAddress = process.env.CONTRACT_ADDRESS || manifest?.address;
+  if (!contractAddress) {
+    throw new Error(
+      `No AISommelierFHE address: set CONTRACT_ADDRESS or deploy to ${network} first`,
+    );
+  }
+
+  return {
+    network,
+    rpcUrl: process.env.RPC_URL || "http://127.0.0.1:8545",
+    contractAddress,
+    startBlock: intEnv("START_BLOCK", manifest?.blockNumber ?? 0),
+    confirmations: intEnv("CONFIRMATIONS", network === "localhost" ? 0 : 5),
+    pollIntervalMs: intEnv("POLL_INTERVAL_MS", 4000),
+    logChunkSize: intEnv("LOG_CHUNK_SIZE", 5000) || 5000,
+    dbPath:
+      process.env.DB_PATH ||
+      path.join(__dirname, "..", "data", `${network}.sqlite`),
+    port: intEnv("PORT", 4000),
+  };
+}
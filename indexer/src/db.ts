@@ -0,0 +1,524 @@
+// db.ts
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+// Ciphertext handles are stored as the 0x-prefixed bytes32 the contract
+// returns; the indexer never sees plaintext.
+export interface RecordRow {
+  recordId: number;
+  batchId: number;
+  noteIndex: number;
+  provider: string;
+  owner: string | null; // null once deleted
+  timestamp: number;
+  wineType: string;
+  rating: string;
+  foodPairingId: string;
+  userId: string;
+  price: string;
+  tannins: string;
+  acidity: string;
+  region: string;
+  recommendation: string;
+  updatedBlock: number; // block the owner and recommendation were read at
+  txHash: string | null; // submission transaction, from WineNoteSubmitted
+}
+
+export interface BatchRow {
+  batchId: number;
+  openedBlock: number | null;
+  openedAt: number | null;
+  closed: boolean;
+  closedBlock: number | null;
+  scores: number[] | null; // summed rating per wine type once decrypted
+  topWineType: number | null;
+  recordCount: number; // every note submitted to the batch, deleted ones included
+  providerCount: number;
+}
+
+export interface SubmissionRow {
+  batchId: number;
+  noteIndex: number;
+  provider: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+// A request seen only through its completion has no requested* fields,
+// which happens when START_BLOCK lies between the two.
+export interface RecommendationRow {
+  seq: number;
+  requestId: string;
+  batchId: number;
+  requestedBlock: number | null;
+  requestedTx: string | null;
+  completedBlock: number | null;
+  scores: number[] | null;
+  topWineType: number | null;
+}
+
+export interface ProviderRow {
+  address: string;
+  submissionCount: number;
+  batchCount: number;
+  firstSubmittedBlock: number;
+  lastSubmittedBlock: number;
+}
+
+export interface Page<T> {
+  total: number;
+  offset: number;
+  limit: number;
+  items: T[];
+}
+
+// Keyset page: `after` is the sort key of the last item already seen
+export interface Slice<T> {
+  totalCount: number;
+  hasNextPage: boolean;
+  items: T[];
+}
+
+export interface RecordFilter {
+  owner?: string;
+  provider?: string;
+  batchId?: number;
+  includeDeleted?: boolean;
+}
+
+export interface RecordQuery extends RecordFilter {
+  offset: number;
+  limit: number;
+}
+
+export interface BatchFilter {
+  closed?: boolean;
+  analyzed?: boolean;
+}
+
+export interface RecommendationFilter {
+  batchId?: number;
+  completed?: boolean;
+}
+
+// Bump when the tables change; an older database is dropped and re-indexed
+const SCHEMA_VERSION = 2;
+
+const SCHEMA = `
+  CREATE TABLE records (
+    record_id       INTEGER PRIMARY KEY,
+    batch_id        INTEGER NOT NULL,
+    note_index      INTEGER NOT NULL,
+    provider        TEXT NOT NULL,
+    owner           TEXT,
+    timestamp       INTEGER NOT NULL,
+    wine_type       TEXT NOT NULL,
+    rating          TEXT NOT NULL,
+    food_pairing_id TEXT NOT NULL,
+    user_id         TEXT NOT NULL,
+    price           TEXT NOT NULL,
+    tannins         TEXT NOT NULL,
+    acidity         TEXT NOT NULL,
+    region          TEXT NOT NULL,
+    recommendation  TEXT NOT NULL,
+    updated_block   INTEGER NOT NULL
+  );
+  CREATE INDEX records_by_owner ON records (owner, record_id);
+  CREATE INDEX records_by_provider ON records (provider, record_id);
+  CREATE INDEX records_by_batch ON records (batch_id, record_id);
+
+  CREATE TABLE submissions (
+    batch_id     INTEGER NOT NULL,
+    note_index   INTEGER NOT NULL,
+    provider     TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash      TEXT NOT NULL,
+    PRIMARY KEY (batch_id, note_index)
+  );
+  CREATE INDEX submissions_by_provider ON submissions (provider);
+
+  CREATE TABLE batches (
+    batch_id      INTEGER PRIMARY KEY,
+    opened_block  INTEGER,
+    opened_at     INTEGER,
+    closed        INTEGER NOT NULL DEFAULT 0,
+    closed_block  INTEGER,
+    scores        TEXT,
+    top_wine_type INTEGER
+  );
+
+  CREATE TABLE recommendations (
+    seq             INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id      TEXT NOT NULL UNIQUE,
+    batch_id        INTEGER NOT NULL,
+    requested_block INTEGER,
+    requested_tx    TEXT,
+    completed_block INTEGER,
+    scores          TEXT,
+    top_wine_type   INTEGER
+  );
+  CREATE INDEX recommendations_by_batch ON recommendations (batch_id, seq);
+
+  CREATE TABLE sync_state (
+    id         INTEGER PRIMARY KEY CHECK (id = 1),
+    contract   TEXT NOT NULL,
+    block      INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+  );
+`;
+
+const TABLES = [
+  "records",
+  "submissions",
+  "batches",
+  "recommendations",
+  "sync_state",
+];
+
+const RECORD_SELECT = `
+  SELECT r.record_id AS recordId, r.batch_id AS batchId, r.note_index AS noteIndex, r.provider, r.owner,
+         r.timestamp, r.wine_type AS wineType, r.rating, r.food_pairing_id AS foodPairingId,
+         r.user_id AS userId, r.price, r.tannins, r.acidity, r.region, r.recommendation,
+         r.updated_block AS updatedBlock, s.tx_hash AS txHash
+  FROM records r LEFT JOIN submissions s ON s.batch_id = r.batch_id AND s.note_index = r.note_index
+`;
+
+const BATCH_SELECT = `
+  SELECT b.batch_id AS batchId, b.opened_block AS openedBlock, b.opened_at AS openedAt, b.closed,
+         b.closed_block AS closedBlock, b.scores, b.top_wine_type AS topWineType,
+         COUNT(r.record_id) AS recordCount, COUNT(DISTINCT r.provider) AS providerCount
+  FROM batches b LEFT JOIN records r ON r.batch_id = b.batch_id
+`;
+
+const RECOMMENDATION_SELECT = `
+  SELECT seq, request_id AS requestId, batch_id AS batchId, requested_block AS requestedBlock,
+         requested_tx AS requestedTx, completed_block AS completedBlock, scores, top_wine_type AS topWineType
+  FROM recommendations
+`;
+
+const PROVIDER_SELECT = `
+  SELECT provider AS address, COUNT(*) AS submissionCount, COUNT(DISTINCT batch_id) AS batchCount,
+         MIN(block_number) AS firstSubmittedBlock, MAX(block_number) AS lastSubmittedBlock
+  FROM submissions
+`;
+
+// Scores are stored as a JSON array
+type StoredScores<T> = Omit<T, "scores"> & { scores: string | null };
+type StoredBatch = Omit<StoredScores<BatchRow>, "closed"> & { closed: number };
+
+const parseScores = (scores: string | null): number[] | null =>
+  scores ? JSON.parse(scores) : null;
+const parseBatch = (row: StoredBatch): BatchRow => ({
+  ...row,
+  closed: row.closed === 1,
+  scores: parseScores(row.scores),
+});
+const parseRecommendation = (
+  row: StoredScores<RecommendationRow>,
+): RecommendationRow => ({ ...row, scores: parseScores(row.scores) });
+
+// Addresses are stored lowercased so owner lookups are case-insensitive
+const norm = (address: string) => address.toLowerCase();
+
+// An SQL condition followed by the values of its placeholders
+type Condition = [sql: string, ...params: (string | number)[]];
+
+function where(conditions: Condition[]) {
+  return {
+    clause: conditions.length
+      ? `WHERE ${conditions.map(([sql]) => sql).join(" AND ")}`
+      : "",
+    params: conditions.flatMap(([, ...params]) => params),
+  };
+}
+
+function recordConditions(filter: RecordFilter): Condition[] {
+  const conditions: Condition[] = [];
+  if (!filter.includeDeleted) conditions.push(["r.owner IS NOT NULL"]);
+  if (filter.owner !== undefined)
+    conditions.push(["r.owner = ?", norm(filter.owner)]);
+  if (filter.provider !== undefined)
+    conditions.push(["r.provider = ?", norm(filter.provider)]);
+  if (filter.batchId !== undefined)
+    conditions.push(["r.batch_id = ?", filter.batchId]);
+  return conditions;
+}
+
+export function openStore(dbPath: string) {
+  if (dbPath !== ":memory:")
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  if (db.pragma("user_version", { simple: true }) !== SCHEMA_VERSION) {
+    db.exec(TABLES.map((table) => `DROP TABLE IF EXISTS ${table};`).join(""));
+    db.exec(SCHEMA);
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+
+  const upsertRecord = db.prepare(`
+    INSERT INTO records VALUES (
+      @recordId, @batchId, @noteIndex, @provider, @owner, @timestamp, @wineType, @rating, @foodPairingId,
+      @userId, @price, @tannins, @acidity, @region, @recommendation, @updatedBlock
+    )
+    ON CONFLICT (record_id) DO UPDATE SET
+      owner = excluded.owner, recommendation = excluded.recommendation, updated_block = excluded.updated_block
+    WHERE excluded.updated_block >= records.updated_block
+  `);
+  const upsertSubmission = db.prepare(`
+    INSERT OR REPLACE INTO submissions VALUES (@batchId, @noteIndex, @provider, @blockNumber, @txHash)
+  `);
+  const upsertOpened = db.prepare(`
+    INSERT INTO batches (batch_id, opened_block, opened_at) VALUES (?, ?, ?)
+    ON CONFLICT (batch_id) DO UPDATE SET opened_block = excluded.opened_block, opened_at = excluded.opened_at
+  `);
+  const upsertClosed = db.prepare(`
+    INSERT INTO batches (batch_id, closed, closed_block) VALUES (?, 1, ?)
+    ON CONFLICT (batch_id) DO UPDATE SET closed = 1, closed_block = excluded.closed_block
+  `);
+  const upsertResult = db.prepare(`
+    INSERT INTO batches (batch_id, scores, top_wine_type) VALUES (?, ?, ?)
+    ON CONFLICT (batch_id) DO UPDATE SET scores = excluded.scores, top_wine_type = excluded.top_wine_type
+  `);
+  const upsertRequested = db.prepare(`
+    INSERT INTO recommendations (request_id, batch_id, requested_block, requested_tx) VALUES (?, ?, ?, ?)
+    ON CONFLICT (request_id) DO UPDATE SET
+      requested_block = excluded.requested_block, requested_tx = excluded.requested_tx
+  `);
+  const upsertCompleted = db.prepare(`
+    INSERT INTO recommendations (request_id, batch_id, completed_block, scores, top_wine_type) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (request_id) DO UPDATE SET
+      completed_block = excluded.completed_block, scores = excluded.scores, top_wine_type = excluded.top_wine_type
+  `);
+
+  // Fetches one item more than asked for to learn whether another page exists
+  function slice<T>(
+    select: string,
+    conditions: Condition[],
+    key: string,
+    first: number,
+    after: number | string | undefined,
+    groupBy = "",
+  ): Slice<T> {
+    const filtered = where(conditions);
+    const paged = where(
+      after === undefined ? conditions : [...conditions, [`${key} > ?`, after]],
+    );
+    const { totalCount } = db
+      .prepare(
+        `SELECT COUNT(*) AS totalCount FROM (${select} ${filtered.clause} ${groupBy})`,
+      )
+      .get(...filtered.params) as { totalCount: number };
+    const rows = db
+      .prepare(`${select} ${paged.clause} ${groupBy} ORDER BY ${key} LIMIT ?`)
+      .all(...paged.params, first + 1) as T[];
+    return {
+      totalCount,
+      hasNextPage: rows.length > first,
+      items: rows.slice(0, first),
+    };
+  }
+
+  return {
+    db,
+
+    // Where indexing stopped, or undefined for a fresh database or one that
+    // followed a different contract.
+    getCursor(
+      contract: string,
+    ): { block: number; blockHash: string } | undefined {
+      const row = db
+        .prepare(
+          "SELECT contract, block, block_hash AS blockHash FROM sync_state WHERE id = 1",
+        )
+        .get() as
+        | { contract: string; block: number; blockHash: string }
+        | undefined;
+      return row && row.contract === norm(contract)
+        ? { block: row.block, blockHash: row.blockHash }
+        : undefined;
+    },
+
+    setCursor(contract: string, block: number, blockHash: string) {
+      db.prepare(
+        `INSERT INTO sync_state (id, contract, block, block_hash) VALUES (1, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET contract = excluded.contract, block = excluded.block, block_hash = excluded.block_hash`,
+      ).run(norm(contract), block, blockHash);
+    },
+
+    reset() {
+      db.exec(TABLES.map((table) => `DELETE FROM ${table};`).join(""));
+    },
+
+    saveRecord(record: Omit<RecordRow, "txHash">) {
+      upsertRecord.run({
+        ...record,
+        provider: norm(record.provider),
+        owner: record.owner && norm(record.owner),
+      });
+    },
+
+    saveSubmission(submission: SubmissionRow) {
+      upsertSubmission.run({
+        ...submission,
+        provider: norm(submission.provider),
+      });
+    },
+
+    markBatchOpened(batchId: number, block: number, timestamp: number) {
+      upsertOpened.run(batchId, block, timestamp);
+    },
+
+    markBatchClosed(batchId: number, block: number) {
+      upsertClosed.run(batchId, block);
+    },
+
+    markRecommendationRequested(
+      requestId: string,
+      batchId: number,
+      block: number,
+      txHash: string,
+    ) {
+      upsertRequested.run(requestId, batchId, block, txHash);
+    },
+
+    // The latest completed request also becomes the batch's result
+    saveRecommendationResult(
+      requestId: string,
+      batchId: number,
+      block: number,
+      scores: number[],
+      topWineType: number,
+    ) {
+      upsertCompleted.run(
+        requestId,
+        batchId,
+        block,
+        JSON.stringify(scores),
+        topWineType,
+      );
+      upsertResult.run(batchId, JSON.stringify(scores), topWineType);
+    },
+
+    transaction<T>(fn: () => T): T {
+      return db.transaction(fn)();
+    },
+
+    // Deleted records are left out of listings but still served by id.
+    listRecords(query: RecordQuery): Page<RecordRow> {
+      const { clause, params } = where(recordConditions(query));
+      const { total } = db
+        .prepare(`SELECT COUNT(*) AS total FROM records r ${clause}`)
+        .get(...params) as { total: number };
+      const items = db
+        .prepare(
+          `${RECORD_SELECT} ${clause} ORDER BY r.record_id LIMIT ? OFFSET ?`,
+        )
+        .all(...params, query.limit, query.offset) as RecordRow[];
+      return { total, offset: query.offset, limit: query.limit, items };
+    },
+
+    sliceRecords(
+      filter: RecordFilter,
+      first: number,
+      after?: number,
+    ): Slice<RecordRow> {
+      return slice(
+        RECORD_SELECT,
+        recordConditions(filter),
+        "r.record_id",
+        first,
+        after,
+      );
+    },
+
+    getRecord(recordId: number): RecordRow | undefined {
+      return db
+        .prepare(`${RECORD_SELECT} WHERE r.record_id = ?`)
+        .get(recordId) as RecordRow | undefined;
+    },
+
+    getBatch(batchId: number): BatchRow | undefined {
+      const row = db
+        .prepare(`${BATCH_SELECT} WHERE b.batch_id = ? GROUP BY b.batch_id`)
+        .get(batchId) as StoredBatch | undefined;
+      return row && parseBatch(row);
+    },
+
+    sliceBatches(
+      filter: BatchFilter,
+      first: number,
+      after?: number,
+    ): Slice<BatchRow> {
+      const conditions: Condition[] = [];
+      if (filter.closed !== undefined)
+        conditions.push(["b.closed = ?", Number(filter.closed)]);
+      if (filter.analyzed !== undefined)
+        conditions.push([
+          filter.analyzed ? "b.scores IS NOT NULL" : "b.scores IS NULL",
+        ]);
+      const page = slice<StoredBatch>(
+        BATCH_SELECT,
+        conditions,
+        "b.batch_id",
+        first,
+        after,
+        "GROUP BY b.batch_id",
+      );
+      return { ...page, items: page.items.map(parseBatch) };
+    },
+
+    getRecommendation(requestId: string): RecommendationRow | undefined {
+      const row = db
+        .prepare(`${RECOMMENDATION_SELECT} WHERE request_id = ?`)
+        .get(requestId) as StoredScores<RecommendationRow> | undefined;
+      return row && parseRecommendation(row);
+    },
+
+    sliceRecommendations(
+      filter: RecommendationFilter,
+      first: number,
+      after?: number,
+    ): Slice<RecommendationRow> {
+      const conditions: Condition[] = [];
+      if (filter.batchId !== undefined)
+        conditions.push(["batch_id = ?", filter.batchId]);
+      if (filter.completed !== undefined)
+        conditions.push([
+          filter.completed
+            ? "completed_block IS NOT NULL"
+            : "completed_block IS NULL",
+        ]);
+      const page = slice<StoredScores<RecommendationRow>>(
+        RECOMMENDATION_SELECT,
+        conditions,
+        "seq",
+        first,
+        after,
+      );
+      return {
+        ...page,
+        items: page.items.map(parseRecommendation),
+      };
+    },
+
+    getProvider(address: string): ProviderRow | undefined {
+      return db
+        .prepare(`${PROVIDER_SELECT} WHERE provider = ? GROUP BY provider`)
+        .get(norm(address)) as ProviderRow | undefined;
+    },
+
+    sliceProviders(first: number, after?: string): Slice<ProviderRow> {
+      return slice(
+        PROVIDER_SELECT,
+        [],
+        "provider",
+        first,
+        after === undefined ? undefined : norm(after),
+        "GROUP BY provider",
+      );
+    },
+  };
+}
+
+export type Store = ReturnType<typeof openStore>;
@@ -0,0 +1,412 @@
+// graphql.ts
+import { isAddress } from "ethers";
+import { GraphQLError } from "graphql";
+import {
+  createPubSub,
+  createSchema,
+  createYoga,
+  filter,
+  pipe,
+} from "graphql-yoga";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./api";
+import type {
+  BatchFilter,
+  BatchRow,
+  ProviderRow,
+  RecommendationFilter,
+  RecommendationRow,
+  RecordFilter,
+  RecordRow,
+  Slice,
+  Store,
+} from "./db";
+
+const typeDefs = /* GraphQL */ `
+  """
+  A wine note as stored on chain. Note fields are ciphertext handles
+  (0x-prefixed bytes32); the indexer never sees plaintext.
+  """
+  type Wine {
+    id: Int!
+    batchId: Int!
+    noteIndex: Int!
+    provider: String!
+    "Null once the record is deleted"
+    owner: String
+    timestamp: Int!
+    wineType: String!
+    rating: String!
+    foodPairingId: String!
+    userId: String!
+    price: String!
+    tannins: String!
+    acidity: String!
+    region: String!
+    recommendation: String!
+    updatedBlock: Int!
+    "Submission transaction, null if it predates START_BLOCK"
+    txHash: String
+    batch: Batch
+  }
+
+  type Batch {
+    id: Int!
+    openedBlock: Int
+    openedAt: Int
+    closed: Boolean!
+    closedBlock: Int
+    "Summed rating per wine type from the latest completed recommendation"
+    scores: [Float!]
+    topWineType: Int
+    "Every note submitted to the batch, deleted ones included"
+    recordCount: Int!
+    providerCount: Int!
+    wines(first: Int, after: String, includeDeleted: Boolean): WineConnection!
+    recommendations(first: Int, after: String): RecommendationConnection!
+  }
+
+  type Recommendation {
+    "Decryption request id, a uint256 in decimal"
+    requestId: String!
+    batchId: Int!
+    batch: Batch
+    "Null when the request predates START_BLOCK"
+    requestedBlock: Int
+    requestedTx: String
+    completed: Boolean!
+    completedBlock: Int
+    scores: [Float!]
+    topWineType: Int
+  }
+
+  type Provider {
+    address: String!
+    submissionCount: Int!
+    batchCount: Int!
+    firstSubmittedBlock: Int!
+    lastSubmittedBlock: Int!
+    wines(first: Int, after: String, includeDeleted: Boolean): WineConnection!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    endCursor: String
+  }
+
+  type WineEdge {
+    node: Wine!
+    cursor: String!
+  }
+
+  type WineConnection {
+    edges: [WineEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type BatchEdge {
+    node: Batch!
+    cursor: String!
+  }
+
+  type BatchConnection {
+    edges: [BatchEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type RecommendationEdge {
+    node: Recommendation!
+    cursor: String!
+  }
+
+  type RecommendationConnection {
+    edges: [RecommendationEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type ProviderEdge {
+    node: Provider!
+    cursor: String!
+  }
+
+  type ProviderConnection {
+    edges: [ProviderEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input WineFilter {
+    owner: String
+    provider: String
+    batchId: Int
+    includeDeleted: Boolean
+  }
+
+  input BatchFilter {
+    closed: Boolean
+    "Whether a recommendation has completed for the batch"
+    analyzed: Boolean
+  }
+
+  input RecommendationFilter {
+    batchId: Int
+    completed: Boolean
+  }
+
+  type Query {
+    wines(filter: WineFilter, first: Int, after: String): WineConnection!
+    wine(id: Int!): Wine
+    batches(filter: BatchFilter, first: Int, after: String): BatchConnection!
+    batch(id: Int!): Batch
+    recommendations(
+      filter: RecommendationFilter
+      first: Int
+      after: String
+    ): RecommendationConnection!
+    recommendation(requestId: String!): Recommendation
+    providers(first: Int, after: String): ProviderConnection!
+    provider(address: String!): Provider
+  }
+
+  type Subscription {
+    "Recommendations as they are indexed, optionally for one batch only"
+    recommendationCompleted(batchId: Int): Recommendation!
+  }
+`;
+
+interface PageArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
+// Cursors are the opaque sort key of an item: record id, batch id,
+// recommendation sequence number or provider address.
+const encodeCursor = (key: number | string) =>
+  Buffer.from(JSON.stringify(key)).toString("base64url");
+
+function decodeCursor<K extends number | string>(
+  cursor: string | null | undefined,
+  type: "number" | "string",
+): K | undefined {
+  if (cursor === null || cursor === undefined) return undefined;
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof key === type) return key;
+  } catch {
+    // reported below
+  }
+  throw new GraphQLError("Invalid cursor");
+}
+
+function firstArg(first: number | null | undefined): number {
+  if (first === null || first === undefined) return DEFAULT_PAGE_SIZE;
+  if (first < 0) throw new GraphQLError("first must be non-negative");
+  return Math.min(first, MAX_PAGE_SIZE);
+}
+
+function addressArg(value: string): string;
+function addressArg(value: string | null | undefined): string | undefined;
+function addressArg(value: string | null | undefined): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (!isAddress(value)) throw new GraphQLError(`Invalid address "${value}"`);
+  return value;
+}
+
+// GraphQL passes omitted and null arguments alike; the store only wants
+// the ones that were given.
+const optional = <T>(value: T | null | undefined) => value ?? undefined;
+
+function connection<T>(slice: Slice<T>, key: (item: T) => number | string) {
+  const edges = slice.items.map((node) => ({
+    node,
+    cursor: encodeCursor(key(node)),
+  }));
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: slice.hasNextPage,
+      endCursor: edges.length ? edges[edges.length - 1].cursor : null,
+    },
+    totalCount: slice.totalCount,
+  };
+}
+
+export function createGraphql(store: Store) {
+  const pubSub = createPubSub<{
+    recommendationCompleted: [RecommendationRow];
+  }>();
+
+  const wines = (filter: RecordFilter, { first, after }: PageArgs) =>
+    connection(
+      store.sliceRecords(
+        filter,
+        firstArg(first),
+        decodeCursor<number>(after, "number"),
+      ),
+      (record) => record.recordId,
+    );
+
+  const resolvers = {
+    Query: {
+      wines: (
+        _: unknown,
+        args: PageArgs & {
+          filter?: {
+            owner?: string | null;
+            provider?: string | null;
+            batchId?: number | null;
+            includeDeleted?: boolean | null;
+          } | null;
+        },
+      ) =>
+        wines(
+          {
+            owner: addressArg(args.filter?.owner),
+            provider: addressArg(args.filter?.provider),
+            batchId: optional(args.filter?.batchId),
+            includeDeleted: optional(args.filter?.includeDeleted),
+          },
+          args,
+        ),
+      wine: (_: unknown, { id }: { id: number }) => store.getRecord(id),
+      batches: (
+        _: unknown,
+        args: PageArgs & {
+          filter?: {
+            closed?: boolean | null;
+            analyzed?: boolean | null;
+          } | null;
+        },
+      ) => {
+        const filter: BatchFilter = {
+          closed: optional(args.filter?.closed),
+          analyzed: optional(args.filter?.analyzed),
+        };
+        return connection(
+          store.sliceBatches(
+            filter,
+            firstArg(args.first),
+            decodeCursor<number>(args.after, "number"),
+          ),
+          (batch) => batch.batchId,
+        );
+      },
+      batch: (_: unknown, { id }: { id: number }) => store.getBatch(id),
+      recommendations: (
+        _: unknown,
+        args: PageArgs & {
+          filter?: {
+            batchId?: number | null;
+            completed?: boolean | null;
+          } | null;
+        },
+      ) => {
+        const filter: RecommendationFilter = {
+          batchId: optional(args.filter?.batchId),
+          completed: optional(args.filter?.completed),
+        };
+        return connection(
+          store.sliceRecommendations(
+            filter,
+            firstArg(args.first),
+            decodeCursor<number>(args.after, "number"),
+          ),
+          (recommendation) => recommendation.seq,
+        );
+      },
+      recommendation: (_: unknown, { requestId }: { requestId: string }) =>
+        store.getRecommendation(requestId),
+      providers: (_: unknown, { first, after }: PageArgs) =>
+        connection(
+          store.sliceProviders(
+            firstArg(first),
+            decodeCursor<string>(after, "string"),
+          ),
+          (provider) => provider.address,
+        ),
+      provider: (_: unknown, { address }: { address: string }) =>
+        store.getProvider(addressArg(address)),
+    },
+
+    Subscription: {
+      recommendationCompleted: {
+        subscribe: (_: unknown, { batchId }: { batchId?: number | null }) =>
+          pipe(
+            pubSub.subscribe("recommendationCompleted"),
+            filter(
+              (recommendation: RecommendationRow) =>
+                batchId === null ||
+                batchId === undefined ||
+                recommendation.batchId === batchId,
+            ),
+          ),
+        resolve: (recommendation: RecommendationRow) => recommendation,
+      },
+    },
+
+    Wine: {
+      id: (record: RecordRow) => record.recordId,
+      batch: (record: RecordRow) => store.getBatch(record.batchId),
+    },
+
+    Batch: {
+      id: (batch: BatchRow) => batch.batchId,
+      wines: (
+        batch: BatchRow,
+        args: PageArgs & { includeDeleted?: boolean | null },
+      ) =>
+        wines(
+          {
+            batchId: batch.batchId,
+            includeDeleted: optional(args.includeDeleted),
+          },
+          args,
+        ),
+      recommendations: (batch: BatchRow, { first, after }: PageArgs) =>
+        connection(
+          store.sliceRecommendations(
+            { batchId: batch.batchId },
+            firstArg(first),
+            decodeCursor<number>(after, "number"),
+          ),
+          (recommendation) => recommendation.seq,
+        ),
+    },
+
+    Recommendation: {
+      batch: (recommendation: RecommendationRow) =>
+        store.getBatch(recommendation.batchId),
+      completed: (recommendation: RecommendationRow) =>
+        recommendation.completedBlock !== null,
+    },
+
+    Provider: {
+      wines: (
+        provider: ProviderRow,
+        args: PageArgs & { includeDeleted?: boolean | null },
+      ) =>
+        wines(
+          {
+            provider: provider.address,
+            includeDeleted: optional(args.includeDeleted),
+          },
+          args,
+        ),
+    },
+  };
+
+  const yoga = createYoga({
+    schema: createSchema({ typeDefs, resolvers }),
+    graphqlEndpoint: "/graphql",
+  });
+
+  return {
+    yoga,
+    // Pushes a completed recommendation to `recommendationCompleted` subscribers
+    publishRecommendation(recommendation: RecommendationRow) {
+      pubSub.publish("recommendationCompleted", recommendation);
+    },
+  };
+}
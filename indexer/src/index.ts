@@ -0,0 +1,45 @@
+// index.ts
+import { createApi } from "./api";
+import { loadConfig } from "./config";
+import { openStore } from "./db";
+import { createGraphql } from "./graphql";
+import { createIndexer } from "./indexer";
+
+async function main() {
+  const config = loadConfig();
+  const store = openStore(config.dbPath);
+  const graphql = createGraphql(store);
+  const indexer = createIndexer(config, store, {
+    onRecommendationCompleted: graphql.publishRecommendation,
+  });
+
+  const app = createApi(store, () => ({
+    network: config.network,
+    contractAddress: config.contractAddress,
+    indexedBlock: store.getCursor(config.contractAddress)?.block ?? null,
+  }));
+  app.use(graphql.yoga.graphqlEndpoint, graphql.yoga);
+  const server = app.listen(config.port, () => {
+    console.log(
+      `Indexing AISommelierFHE ${config.contractAddress} on ${config.network} (${config.rpcUrl})`,
+    );
+    console.log(`REST API listening on http://localhost:${config.port}`);
+    console.log(
+      `GraphQL API listening on http://localhost:${config.port}${graphql.yoga.graphqlEndpoint}`,
+    );
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => store.db.close());
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  await indexer.start();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
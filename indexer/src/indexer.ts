@@ -0,0 +1,219 @@
+// indexer.ts
+import {
+  Contract,
+  JsonRpcProvider,
+  Log,
+  LogDescription,
+  ZeroAddress,
+} from "ethers";
+import { AI_SOMMELIER_ABI } from "./abi";
+import type { IndexerConfig } from "./config";
+import type { RecommendationRow, RecordRow, Store } from "./db";
+
+const RECORD_EVENTS = ["RecordCreated", "RecordUpdated"];
+const BATCH_EVENTS = [
+  "BatchOpened",
+  "BatchClosed",
+  "WineNoteSubmitted",
+  "RecommendationRequested",
+  "RecommendationCompleted",
+];
+
+export interface IndexerHooks {
+  // Called once the chunk holding the completion is committed
+  onRecommendationCompleted?: (recommendation: RecommendationRow) => void;
+}
+
+// Same tie-break as AISommelierFHE.getBatchRecommendation: lowest type wins
+const topWineType = (scores: number[]) =>
+  scores.reduce((top, score, i) => (score > scores[top] ? i : top), 0);
+
+export function createIndexer(
+  config: IndexerConfig,
+  store: Store,
+  hooks: IndexerHooks = {},
+  provider = new JsonRpcProvider(config.rpcUrl),
+) {
+  const contract = new Contract(
+    config.contractAddress,
+    AI_SOMMELIER_ABI,
+    provider,
+  );
+  const topics = [
+    [...RECORD_EVENTS, ...BATCH_EVENTS].map(
+      (name) => contract.interface.getEvent(name)!.topicHash,
+    ),
+  ];
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  // Logs only name the record, so its fields are read once per chunk, which
+  // covers every event it got within it. The read happens at the confirmed
+  // head rather than at the chunk end: a non-archive node has pruned the state
+  // of old blocks, and catching up from an early START_BLOCK would fail there
+  // for good. The record may then be ahead of the chunk, so the store only
+  // keeps a read if it is at least as recent as the one it has.
+  async function readRecord(
+    recordId: number,
+    blockTag: number,
+  ): Promise<Omit<RecordRow, "txHash">> {
+    const [record] = await contract.getRecords(recordId, 1, { blockTag });
+    return {
+      recordId,
+      batchId: Number(record.batchId),
+      noteIndex: Number(record.noteIndex),
+      provider: record.provider,
+      owner: record.owner === ZeroAddress ? null : record.owner,
+      timestamp: Number(record.timestamp),
+      wineType: record.note.wineType,
+      rating: record.note.rating,
+      foodPairingId: record.note.foodPairingId,
+      userId: record.note.userId,
+      price: record.note.price,
+      tannins: record.note.tannins,
+      acidity: record.note.acidity,
+      region: record.note.region,
+      recommendation: record.recommendation,
+      updatedBlock: blockTag,
+    };
+  }
+
+  async function indexRange(fromBlock: number, toBlock: number) {
+    const logs = await provider.getLogs({
+      address: config.contractAddress,
+      fromBlock,
+      toBlock,
+      topics,
+    });
+    const events = logs
+      .map((log) => ({ log, event: contract.interface.parseLog(log) }))
+      .filter(
+        (e): e is { log: Log; event: LogDescription } => e.event !== null,
+      );
+
+    const recordIds = new Set<number>();
+    const openedAt = new Map<number, number>();
+    for (const { log, event } of events) {
+      if (RECORD_EVENTS.includes(event.name))
+        recordIds.add(Number(event.args.recordId));
+      if (event.name === "BatchOpened" && !openedAt.has(log.blockNumber)) {
+        openedAt.set(
+          log.blockNumber,
+          (await provider.getBlock(log.blockNumber))!.timestamp,
+        );
+      }
+    }
+    const readBlock = recordIds.size
+      ? Math.max(
+          toBlock,
+          (await provider.getBlockNumber()) - config.confirmations,
+        )
+      : toBlock;
+    const records = await Promise.all(
+      [...recordIds].map((id) => readRecord(id, readBlock)),
+    );
+    const end = await provider.getBlock(toBlock);
+
+    const completed: string[] = [];
+    store.transaction(() => {
+      for (const { log, event } of events) {
+        if (!BATCH_EVENTS.includes(event.name)) continue;
+        const batchId = Number(event.args.batchId);
+        const requestId = event.args.requestId?.toString();
+        if (event.name === "BatchOpened")
+          store.markBatchOpened(
+            batchId,
+            log.blockNumber,
+            openedAt.get(log.blockNumber)!,
+          );
+        if (event.name === "BatchClosed")
+          store.markBatchClosed(batchId, log.blockNumber);
+        if (event.name === "WineNoteSubmitted")
+          store.saveSubmission({
+            batchId,
+            noteIndex: Number(event.args.noteIndex),
+            provider: event.args.provider,
+            blockNumber: log.blockNumber,
+            txHash: log.transactionHash,
+          });
+        if (event.name === "RecommendationRequested")
+          store.markRecommendationRequested(
+            requestId,
+            batchId,
+            log.blockNumber,
+            log.transactionHash,
+          );
+        if (event.name === "RecommendationCompleted") {
+          const scores = (event.args.recommendationResults as bigint[]).map(
+            Number,
+          );
+          store.saveRecommendationResult(
+            requestId,
+            batchId,
+            log.blockNumber,
+            scores,
+            topWineType(scores),
+          );
+          completed.push(requestId);
+        }
+      }
+      records.forEach((record) => store.saveRecord(record));
+      store.setCursor(config.contractAddress, toBlock, end!.hash!);
+    });
+    for (const requestId of completed)
+      hooks.onRecommendationCompleted?.(store.getRecommendation(requestId)!);
+    if (events.length > 0)
+      console.log(
+        `Indexed ${events.length} events in blocks ${fromBlock}-${toBlock}`,
+      );
+  }
+
+  // Catches up to `confirmations` blocks behind the head. If the block the
+  // cursor points at is gone, the chain was reorganised or a local node was
+  // restarted, so everything is indexed again from the start block.
+  async function sync() {
+    const head = (await provider.getBlockNumber()) - config.confirmations;
+    let cursor = store.getCursor(config.contractAddress);
+    if (cursor) {
+      const block =
+        cursor.block <= head ? await provider.getBlock(cursor.block) : null;
+      if (block?.hash !== cursor.blockHash) {
+        console.warn(
+          `Block ${cursor.block} is no longer on chain, re-indexing from block ${config.startBlock}`,
+        );
+        store.reset();
+        cursor = undefined;
+      }
+    }
+
+    for (
+      let from = cursor ? cursor.block + 1 : config.startBlock;
+      from <= head;
+      from += config.logChunkSize
+    ) {
+      await indexRange(from, Math.min(from + config.logChunkSize - 1, head));
+    }
+  }
+
+  async function poll() {
+    try {
+      await sync();
+    } catch (e) {
+      console.error("Sync failed, retrying:", e);
+    }
+    if (!stopped) timer = setTimeout(poll, config.pollIntervalMs);
+  }
+
+  return {
+    sync,
+    start() {
+      stopped = false;
+      return poll();
+    },
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+      provider.destroy();
+    },
+  };
+}
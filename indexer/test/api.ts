@@ -0,0 +1,81 @@
+import { expect } from "chai";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { createApi, MAX_PAGE_SIZE } from "../src/api";
+import type { Store } from "../src/db";
+import { ALICE, seedStore } from "./fixtures";
+
+describe("REST API", function () {
+  let store: Store;
+  let server: Server;
+  let baseUrl: string;
+
+  async function get(path: string) {
+    const res = await fetch(`${baseUrl}${path}`);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return { status: res.status, body: (await res.json()) as any };
+  }
+
+  beforeEach(async function () {
+    store = seedStore();
+    server = createApi(store, () => ({ indexedBlock: 11 })).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+    store.db.close();
+  });
+
+  it("lists records a page at a time", async function () {
+    const { status, body } = await get(`/records?offset=1&limit=2`);
+    expect(status).to.eq(200);
+    expect(body).to.include({ total: 4, offset: 1, limit: 2 });
+    expect(body.items.map((r: { recordId: number }) => r.recordId)).to.deep.eq([
+      1, 2,
+    ]);
+
+    const owned = await get(`/owners/${ALICE}/records`);
+    expect(owned.body.total).to.eq(2);
+    expect((await get(`/records?owner=${ALICE}&batch=1`)).body.total).to.eq(2);
+  });
+
+  it("caps the page size", async function () {
+    const { body } = await get(`/records?limit=${MAX_PAGE_SIZE + 1}`);
+    expect(body.limit).to.eq(MAX_PAGE_SIZE);
+  });
+
+  it("rejects malformed parameters with 400", async function () {
+    for (const path of [
+      "/records?limit=abc",
+      "/records?limit=",
+      "/records?offset=-1",
+      "/records?offset=1.5",
+      "/records?owner=0x123",
+      "/records?batch=one",
+      "/records/abc",
+      "/owners/alice/records",
+      "/batches/-2",
+    ]) {
+      const { status, body } = await get(path);
+      expect(status, path).to.eq(400);
+      expect(body.error, path).to.be.a("string");
+    }
+  });
+
+  it("answers unknown ids with 404", async function () {
+    for (const path of ["/records/99", "/batches/3"]) {
+      const { status, body } = await get(path);
+      expect(status, path).to.eq(404);
+      expect(body).to.deep.eq({ error: "Not found" });
+    }
+  });
+
+  it("serves deleted records and batches by id", async function () {
+    expect((await get("/records/4")).body.owner).to.eq(null);
+    const { body } = await get("/batches/1");
+    expect(body).to.include({ batchId: 1, closed: true, recordCount: 3 });
+    expect((await get("/status")).body).to.deep.eq({ indexedBlock: 11 });
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import type { Store } from "../src/db";
+import { ALICE, BOB, record, seedStore } from "./fixtures";
+
+describe("store", function () {
+  let store: Store;
+
+  beforeEach(function () {
+    store = seedStore();
+  });
+
+  afterEach(function () {
+    store.db.close();
+  });
+
+  describe("sliceRecords", function () {
+    it("pages live records by id after the last one seen", function () {
+      const first = store.sliceRecords({}, 2);
+      expect(first.items.map((r) => r.recordId)).to.deep.eq([0, 1]);
+      expect(first.totalCount).to.eq(4);
+      expect(first.hasNextPage).to.eq(true);
+
+      const second = store.sliceRecords({}, 2, 1);
+      expect(second.items.map((r) => r.recordId)).to.deep.eq([2, 3]);
+      expect(second.totalCount).to.eq(4);
+      expect(second.hasNextPage).to.eq(false);
+
+      expect(store.sliceRecords({}, 2, 3).items).to.be.empty;
+      expect(store.sliceRecords({}, 0).hasNextPage).to.eq(true);
+    });
+
+    it("includes deleted records only when asked", function () {
+      const all = store.sliceRecords({ includeDeleted: true }, 10);
+      expect(all.items.map((r) => r.recordId)).to.deep.eq([0, 1, 2, 3, 4]);
+      expect(all.items[4].owner).to.eq(null);
+    });
+
+    it("filters by owner, provider and batch", function () {
+      const ids = (filter: Parameters<Store["sliceRecords"]>[0]) =>
+        store.sliceRecords(filter, 10).items.map((r) => r.recordId);
+
+      expect(ids({ owner: ALICE })).to.deep.eq([0, 2]);
+      expect(ids({ owner: BOB.toLowerCase() })).to.deep.eq([1, 3]);
+      expect(ids({ provider: ALICE, includeDeleted: true })).to.deep.eq([
+        0, 2, 4,
+      ]);
+      expect(ids({ batchId: 2 })).to.deep.eq([3]);
+      expect(ids({ owner: BOB, batchId: 1 })).to.deep.eq([1]);
+      expect(store.sliceRecords({ owner: ALICE }, 1).totalCount).to.eq(2);
+    });
+
+    it("joins the submission transaction", function () {
+      const [first] = store.sliceRecords({}, 1).items;
+      expect(first.txHash).to.eq(`0x${"0".repeat(64)}`);
+      expect(first.provider).to.eq(ALICE.toLowerCase());
+    });
+  });
+
+  describe("sliceBatches", function () {
+    it("counts notes and providers per batch", function () {
+      const { items, totalCount } = store.sliceBatches({}, 10);
+      expect(totalCount).to.eq(2);
+      expect(items[0]).to.include({
+        batchId: 1,
+        closed: true,
+        recordCount: 3,
+        providerCount: 2,
+        topWineType: 0,
+      });
+      expect(items[0].scores).to.deep.eq([140, 70, 50, 90]);
+      expect(items[1]).to.include({ batchId: 2, closed: false, scores: null });
+    });
+
+    it("filters by closed and analyzed state and pages by id", function () {
+      const ids = (filter: Parameters<Store["sliceBatches"]>[0]) =>
+        store.sliceBatches(filter, 10).items.map((b) => b.batchId);
+
+      expect(ids({ closed: true })).to.deep.eq([1]);
+      expect(ids({ closed: false })).to.deep.eq([2]);
+      expect(ids({ analyzed: true })).to.deep.eq([1]);
+      expect(ids({ analyzed: false, closed: true })).to.be.empty;
+
+      const page = store.sliceBatches({}, 1, 1);
+      expect(page.items.map((b) => b.batchId)).to.deep.eq([2]);
+      expect(page.totalCount).to.eq(2);
+      expect(page.hasNextPage).to.eq(false);
+    });
+  });
+
+  describe("sliceRecommendations", function () {
+    it("pages requests in the order they were seen", function () {
+      const first = store.sliceRecommendations({}, 1);
+      expect(first.items.map((r) => r.requestId)).to.deep.eq(["11"]);
+      expect(first.items[0].scores).to.deep.eq([140, 70, 50, 90]);
+      expect(first.hasNextPage).to.eq(true);
+
+      const second = store.sliceRecommendations({}, 1, first.items[0].seq);
+      expect(second.items.map((r) => r.requestId)).to.deep.eq(["12"]);
+      expect(second.items[0].completedBlock).to.eq(null);
+      expect(second.hasNextPage).to.eq(false);
+    });
+
+    it("filters by batch and completion", function () {
+      const ids = (filter: Parameters<Store["sliceRecommendations"]>[0]) =>
+        store.sliceRecommendations(filter, 10).items.map((r) => r.requestId);
+
+      expect(ids({ completed: true })).to.deep.eq(["11"]);
+      expect(ids({ completed: false })).to.deep.eq(["12"]);
+      expect(ids({ batchId: 1 })).to.deep.eq(["11", "12"]);
+      expect(ids({ batchId: 2 })).to.be.empty;
+    });
+  });
+
+  describe("sliceProviders", function () {
+    it("pages providers by address", function () {
+      const [first, second] = [ALICE, BOB].map((a) => a.toLowerCase()).sort();
+      const page = store.sliceProviders(1);
+      expect(page.items.map((p) => p.address)).to.deep.eq([first]);
+      expect(page.totalCount).to.eq(2);
+      expect(page.hasNextPage).to.eq(true);
+
+      // Cursors are compared case-insensitively like every address
+      const next = store.sliceProviders(1, first.toUpperCase());
+      expect(next.items.map((p) => p.address)).to.deep.eq([second]);
+      expect(next.hasNextPage).to.eq(false);
+    });
+
+    it("summarises each provider's submissions", function () {
+      expect(store.getProvider(ALICE)).to.deep.eq({
+        address: ALICE.toLowerCase(),
+        submissionCount: 3,
+        batchCount: 2,
+        firstSubmittedBlock: 2,
+        lastSubmittedBlock: 10,
+      });
+      expect(store.getProvider(`0x${"0".repeat(40)}`)).to.eq(undefined);
+    });
+  });
+
+  it("keeps the most recent read of a record", function () {
+    store.saveRecord(record(0, { owner: BOB, updatedBlock: 5 }));
+    expect(store.getRecord(0)!.owner).to.eq(ALICE.toLowerCase());
+
+    store.saveRecord(record(0, { owner: BOB, updatedBlock: 12 }));
+    expect(store.getRecord(0)).to.include({
+      owner: BOB.toLowerCase(),
+      updatedBlock: 12,
+    });
+  });
+});
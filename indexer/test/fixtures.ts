@@ -0,0 +1,58 @@
+import { openStore, RecordRow, Store } from "../src/db";
+
+export const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+export const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+const HANDLE = `0x${"ab".repeat(32)}`;
+
+export function record(
+  recordId: number,
+  fields: Partial<Omit<RecordRow, "recordId" | "txHash">> = {},
+): Omit<RecordRow, "txHash"> {
+  return {
+    recordId,
+    batchId: 1,
+    noteIndex: recordId,
+    provider: ALICE,
+    owner: ALICE,
+    timestamp: 1_700_000_000 + recordId,
+    wineType: HANDLE,
+    rating: HANDLE,
+    foodPairingId: HANDLE,
+    userId: HANDLE,
+    price: HANDLE,
+    tannins: HANDLE,
+    acidity: HANDLE,
+    region: HANDLE,
+    recommendation: HANDLE,
+    updatedBlock: 10,
+    ...fields,
+  };
+}
+
+// Two batches: batch 1 is closed and analyzed with records 0-2 (Alice, Bob,
+// Alice), batch 2 is open with records 3 and 4 (Bob, then deleted).
+export function seedStore(): Store {
+  const store = openStore(":memory:");
+  store.markBatchOpened(1, 1, 1_700_000_000);
+  store.markBatchOpened(2, 8, 1_700_000_100);
+  const owners = [ALICE, BOB, ALICE, BOB, null];
+  owners.forEach((owner, recordId) => {
+    const batchId = recordId < 3 ? 1 : 2;
+    const noteIndex = recordId < 3 ? recordId : recordId - 3;
+    const provider = owner ?? ALICE;
+    store.saveSubmission({
+      batchId,
+      noteIndex,
+      provider,
+      blockNumber: 2 + recordId * 2,
+      txHash: `0x${recordId.toString(16).padStart(64, "0")}`,
+    });
+    store.saveRecord(record(recordId, { batchId, noteIndex, provider, owner }));
+  });
+  store.markBatchClosed(1, 7);
+  store.markRecommendationRequested("11", 1, 9, `0x${"01".repeat(32)}`);
+  store.saveRecommendationResult("11", 1, 10, [140, 70, 50, 90], 0);
+  store.markRecommendationRequested("12", 1, 11, `0x${"02".repeat(32)}`);
+  return store;
+}
@@ -0,0 +1,242 @@
+import { expect } from "chai";
+import { MAX_PAGE_SIZE } from "../src/api";
+import type { RecommendationRow, Store } from "../src/db";
+import { createGraphql } from "../src/graphql";
+import { ALICE, BOB, record, seedStore } from "./fixtures";
+
+const cursor = (key: unknown) =>
+  Buffer.from(JSON.stringify(key)).toString("base64url");
+
+describe("GraphQL API", function () {
+  let store: Store;
+  let graphql: ReturnType<typeof createGraphql>;
+
+  async function query(source: string, variables: object = {}) {
+    const res = await graphql.yoga.fetch("http://localhost/graphql", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ query: source, variables }),
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (await res.json()) as { data?: any; errors?: { message: string }[] };
+  }
+
+  const wineIds = async (args: string) => {
+    const { data, errors } = await query(
+      `{ wines${args} { edges { node { id } } } }`,
+    );
+    expect(errors, args).to.eq(undefined);
+    return data.wines.edges.map((e: { node: { id: number } }) => e.node.id);
+  };
+
+  beforeEach(function () {
+    store = seedStore();
+    graphql = createGraphql(store);
+  });
+
+  afterEach(function () {
+    store.db.close();
+  });
+
+  it("pages wines with the end cursor", async function () {
+    const page = `query ($after: String) {
+      wines(first: 2, after: $after) {
+        edges { node { id } cursor }
+        pageInfo { hasNextPage endCursor }
+        totalCount
+      }
+    }`;
+    const first = (await query(page)).data.wines;
+    expect(
+      first.edges.map((e: { node: { id: number } }) => e.node.id),
+    ).to.deep.eq([0, 1]);
+    expect(first.pageInfo).to.deep.eq({
+      hasNextPage: true,
+      endCursor: cursor(1),
+    });
+    expect(first.totalCount).to.eq(4);
+
+    const second = (await query(page, { after: first.pageInfo.endCursor })).data
+      .wines;
+    expect(
+      second.edges.map((e: { node: { id: number } }) => e.node.id),
+    ).to.deep.eq([2, 3]);
+    expect(second.pageInfo.hasNextPage).to.eq(false);
+  });
+
+  it("rejects cursors that are malformed or of the wrong type", async function () {
+    for (const [source, after] of [
+      ["wines", "not a cursor"],
+      ["wines", cursor("0xabc")],
+      ["batches", cursor({ batchId: 1 })],
+      ["recommendations", cursor(null)],
+      ["providers", cursor(3)],
+    ]) {
+      const { data, errors } = await query(
+        `query ($after: String) { ${source}(after: $after) { totalCount } }`,
+        { after },
+      );
+      expect(data, source).to.eq(null);
+      expect(
+        errors?.map((e) => e.message),
+        source,
+      ).to.deep.eq(["Invalid cursor"]);
+    }
+
+    const { data } = await query(
+      `{ providers(after: "${cursor(ALICE.toLowerCase())}") { totalCount } }`,
+    );
+    expect(data.providers.totalCount).to.eq(2);
+  });
+
+  it("defaults, caps and validates first", async function () {
+    for (let recordId = 5; recordId < MAX_PAGE_SIZE + 10; recordId++) {
+      store.saveRecord(record(recordId, { batchId: 2 }));
+    }
+
+    expect(await wineIds("")).to.have.length(50);
+    expect(await wineIds(`(first: ${MAX_PAGE_SIZE + 1})`)).to.have.length(
+      MAX_PAGE_SIZE,
+    );
+    expect(await wineIds("(first: 0)")).to.be.empty;
+
+    const { errors } = await query(`{ batches(first: -1) { totalCount } }`);
+    expect(errors?.map((e) => e.message)).to.deep.eq([
+      "first must be non-negative",
+    ]);
+  });
+
+  it("maps wine filters onto the store", async function () {
+    expect(await wineIds(`(filter: { owner: "${ALICE}" })`)).to.deep.eq([0, 2]);
+    expect(
+      await wineIds(`(filter: { owner: "${BOB}", batchId: 1 })`),
+    ).to.deep.eq([1]);
+    expect(
+      await wineIds(`(filter: { provider: "${ALICE}", includeDeleted: true })`),
+    ).to.deep.eq([0, 2, 4]);
+    // Null fields are the same as leaving them out
+    expect(
+      await wineIds(
+        `(filter: { owner: null, batchId: null, includeDeleted: null })`,
+      ),
+    ).to.deep.eq([0, 1, 2, 3]);
+
+    const { errors } = await query(
+      `{ wines(filter: { owner: "0x123" }) { totalCount } }`,
+    );
+    expect(errors?.map((e) => e.message)).to.deep.eq([
+      'Invalid address "0x123"',
+    ]);
+  });
+
+  it("maps batch and recommendation filters onto the store", async function () {
+    const { data } = await query(`{
+      open: batches(filter: { closed: false }) { edges { node { id } } }
+      analyzed: batches(filter: { analyzed: true }) {
+        edges { node { id scores topWineType } }
+      }
+      done: recommendations(filter: { completed: true }) {
+        edges { node { requestId completed } }
+      }
+      pending: recommendations(filter: { batchId: 1, completed: false }) {
+        edges { node { requestId completed } }
+      }
+      none: recommendations(filter: { batchId: 2 }) { totalCount }
+    }`);
+    expect(data.open.edges).to.deep.eq([{ node: { id: 2 } }]);
+    expect(data.analyzed.edges).to.deep.eq([
+      { node: { id: 1, scores: [140, 70, 50, 90], topWineType: 0 } },
+    ]);
+    expect(data.done.edges).to.deep.eq([
+      { node: { requestId: "11", completed: true } },
+    ]);
+    expect(data.pending.edges).to.deep.eq([
+      { node: { requestId: "12", completed: false } },
+    ]);
+    expect(data.none.totalCount).to.eq(0);
+  });
+
+  it("looks up a provider by address", async function () {
+    const { data } = await query(
+      `query ($address: String!) {
+        provider(address: $address) {
+          address
+          submissionCount
+          wines(includeDeleted: true) { totalCount }
+        }
+      }`,
+      { address: BOB },
+    );
+    expect(data.provider).to.deep.eq({
+      address: BOB.toLowerCase(),
+      submissionCount: 2,
+      wines: { totalCount: 2 },
+    });
+
+    const { errors } = await query(`{ provider(address: "bob") { address } }`);
+    expect(errors?.map((e) => e.message)).to.deep.eq(['Invalid address "bob"']);
+  });
+
+  it("only sends subscribers recommendations for their batch", async function () {
+    const res = await graphql.yoga.fetch("http://localhost/graphql", {
+      method: "POST",
+      headers: {
+        accept: "text/event-stream",
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        query: `subscription {
+          recommendationCompleted(batchId: 2) { requestId batchId scores }
+        }`,
+      }),
+    });
+    expect(res.status).to.eq(200);
+
+    const completed = (
+      requestId: string,
+      batchId: number,
+    ): RecommendationRow => ({
+      seq: Number(requestId),
+      requestId,
+      batchId,
+      requestedBlock: 12,
+      requestedTx: null,
+      completedBlock: 13,
+      scores: [1, 2, 3, 4],
+      topWineType: 3,
+    });
+    // The subscription only listens once the stream is read from
+    const reader = res.body!.getReader();
+    const received = (async () => {
+      let events = "";
+      while (!events.includes("data:")) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        events += new TextDecoder().decode(value);
+      }
+      await reader.cancel();
+      return events;
+    })();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    graphql.publishRecommendation(completed("21", 1));
+    graphql.publishRecommendation(completed("22", 2));
+
+    const events = await received;
+
+    const data = events
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => JSON.parse(line.slice("data:".length)));
+    expect(data).to.deep.eq([
+      {
+        data: {
+          recommendationCompleted: {
+            requestId: "22",
+            batchId: 2,
+            scores: [1, 2, 3, 4],
+          },
+        },
+      },
+    ]);
+  });
+});
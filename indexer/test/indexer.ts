@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import {
+  Interface,
+  JsonRpcProvider,
+  TransactionRequest,
+  ZeroHash,
+} from "ethers";
+import { AI_SOMMELIER_ABI } from "../src/abi";
+import type { IndexerConfig } from "../src/config";
+import type { Store } from "../src/db";
+import { createIndexer } from "../src/indexer";
+import { ALICE, record, seedStore } from "./fixtures";
+
+const CONTRACT = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const iface = new Interface(AI_SOMMELIER_ABI);
+
+const config: IndexerConfig = {
+  network: "test",
+  rpcUrl: "http://127.0.0.1:0",
+  contractAddress: CONTRACT,
+  startBlock: 5,
+  confirmations: 2,
+  pollIntervalMs: 1000,
+  logChunkSize: 10,
+  dbPath: ":memory:",
+  port: 0,
+};
+
+interface FakeLog {
+  blockNumber: number;
+  topics: string[];
+  data: string;
+  transactionHash: string;
+}
+
+// Just enough of a JsonRpcProvider for sync(): a chain of `height` blocks
+// whose hashes can be swapped to simulate a reorg, a fixed set of logs and
+// getRecords answered from `records`.
+function fakeChain(height: number) {
+  const chain = {
+    height,
+    hashPrefix: "0xa",
+    logs: [] as FakeLog[],
+    logRanges: [] as [number, number][],
+    readBlocks: [] as number[],
+    records: [] as ReturnType<typeof record>[],
+  };
+  const hash = (block: number) =>
+    `${chain.hashPrefix}${block.toString(16).padStart(63, "0")}`;
+  const provider = {
+    async getBlockNumber() {
+      return chain.height;
+    },
+    async getBlock(block: number) {
+      return block <= chain.height
+        ? { hash: hash(block), timestamp: 1_700_000_000 + block }
+        : null;
+    },
+    async getLogs({
+      fromBlock,
+      toBlock,
+    }: {
+      fromBlock: number;
+      toBlock: number;
+    }) {
+      chain.logRanges.push([fromBlock, toBlock]);
+      return chain.logs.filter(
+        (log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock,
+      );
+    },
+    async call(tx: TransactionRequest) {
+      chain.readBlocks.push(Number(tx.blockTag));
+      const [offset] = iface.decodeFunctionData("getRecords", tx.data!);
+      const r = chain.records[Number(offset)];
+      const note = [
+        r.wineType,
+        r.rating,
+        r.foodPairingId,
+        r.userId,
+        r.price,
+        r.tannins,
+        r.acidity,
+        r.region,
+      ];
+      return iface.encodeFunctionResult("getRecords", [
+        [
+          [
+            r.recordId,
+            r.batchId,
+            r.noteIndex,
+            r.provider,
+            r.owner,
+            r.timestamp,
+            note,
+            r.recommendation,
+          ],
+        ],
+      ]);
+    },
+  };
+  return {
+    chain,
+    hash,
+    provider: provider as unknown as JsonRpcProvider,
+  };
+}
+
+function eventLog(blockNumber: number, name: string, args: unknown[]): FakeLog {
+  const { topics, data } = iface.encodeEventLog(name, args);
+  return { blockNumber, topics, data, transactionHash: ZeroHash };
+}
+
+describe("indexer sync", function () {
+  let store: Store;
+
+  beforeEach(function () {
+    store = seedStore();
+  });
+
+  afterEach(function () {
+    store.db.close();
+  });
+
+  it("resumes after the cursor while its block is still on chain", async function () {
+    const { chain, hash, provider } = fakeChain(30);
+    store.setCursor(CONTRACT, 12, hash(12));
+
+    await createIndexer(config, store, {}, provider).sync();
+
+    expect(chain.logRanges).to.deep.eq([
+      [13, 22],
+      [23, 28],
+    ]);
+    expect(store.getCursor(CONTRACT)).to.deep.eq({
+      block: 28,
+      blockHash: hash(28),
+    });
+    expect(store.getRecord(0)).to.not.eq(undefined);
+  });
+
+  it("re-indexes from the start block once the cursor block was reorganised", async function () {
+    const { chain, hash, provider } = fakeChain(30);
+    store.setCursor(CONTRACT, 12, hash(12));
+    chain.hashPrefix = "0xb";
+
+    await createIndexer(config, store, {}, provider).sync();
+
+    expect(store.getRecord(0)).to.eq(undefined);
+    expect(store.getBatch(1)).to.eq(undefined);
+    expect(chain.logRanges[0]).to.deep.eq([5, 14]);
+    expect(store.getCursor(CONTRACT)).to.deep.eq({
+      block: 28,
+      blockHash: hash(28),
+    });
+  });
+
+  it("re-indexes when the chain is now shorter than the cursor", async function () {
+    const { chain, provider } = fakeChain(8);
+    store.setCursor(CONTRACT, 12, `0x${"cd".repeat(32)}`);
+
+    await createIndexer(config, store, {}, provider).sync();
+
+    expect(store.getRecord(0)).to.eq(undefined);
+    expect(chain.logRanges).to.deep.eq([[5, 6]]);
+    expect(store.getCursor(CONTRACT)?.block).to.eq(6);
+  });
+
+  it("reads records at the confirmed head, not at the chunk end", async function () {
+    const { chain, provider } = fakeChain(40);
+    store.reset();
+    chain.records = [record(0, { owner: ALICE, updatedBlock: 0 })];
+    chain.logs = [eventLog(7, "RecordCreated", [0, ALICE, 1, 0])];
+
+    await createIndexer(config, store, {}, provider).sync();
+
+    // Created in the first chunk (5-14), read where a pruned node still has state
+    expect(chain.readBlocks).to.deep.eq([38]);
+    expect(store.getRecord(0)).to.include({
+      owner: ALICE.toLowerCase(),
+      updatedBlock: 38,
+    });
+  });
+});
@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-interface gateway-manager-serviceProps { data: string }
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\model-secure-factory\frontend\import.java
-// Generated at: 2025-10-21T14:54:01.219Z
\ No newline at end of file
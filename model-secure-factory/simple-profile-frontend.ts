@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function components-validator() { return <div>Component</div>; }
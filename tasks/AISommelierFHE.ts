@@ -0,0 +1,37 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Points the web app at the AISommelierFHE deployment of the selected network:
+ * writes frontend/web/src/config.json and the ABI the frontend loads.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:export-frontend
+ */
+task("task:export-frontend", "Writes the frontend config and ABI for the deployed AISommelierFHE").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const { deployments, network } = hre;
+
+    const deployment = await deployments.get("AISommelierFHE");
+    const artifact = await hre.artifacts.readArtifact("AISommelierFHE");
+    const frontendSrc = path.join(hre.config.paths.root, "frontend", "web", "src");
+
+    const config = {
+      network: "url" in network.config ? network.config.url : network.name,
+      chainId: Number(await hre.getChainId()),
+      contractAddress: deployment.address,
+      deployer: deployment.receipt?.from,
+    };
+    fs.writeFileSync(path.join(frontendSrc, "config.json"), JSON.stringify(config, null, 2));
+
+    const { _format, contractName, sourceName } = artifact;
+    fs.writeFileSync(
+      path.join(frontendSrc, "abi", "AISommelierFHE.json"),
+      JSON.stringify({ _format, contractName, sourceName, abi: deployment.abi }, null, 2) + "\n",
+    );
+
+    console.log(`AISommelierFHE on ${network.name} at ${deployment.address} exported to frontend/web/src`);
+  },
+);
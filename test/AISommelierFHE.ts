@@ -0,0 +1,1171 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AISommelierFHE, AISommelierFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type Note = {
+  wineType: number;
+  rating: number;
+  foodPairingId?: number;
+  price: number; // cents
+  tannins: number;
+  acidity: number;
+  region?: number;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "AISommelierFHE",
+  )) as AISommelierFHE__factory;
+  const contract = (await factory.deploy()) as AISommelierFHE;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("AISommelierFHE", function () {
+  let signers: Signers;
+  let contract: AISommelierFHE;
+  let contractAddress: string;
+
+  async function submitNote(signer: HardhatEthersSigner, note: Note) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    input.add8(note.wineType);
+    input.add8(note.rating);
+    input.add8(note.foodPairingId ?? 0);
+    input.add32(1);
+    input.add32(note.price);
+    input.add8(note.tannins);
+    input.add8(note.acidity);
+    input.add8(note.region ?? 0);
+    const encrypted = await input.encrypt();
+    return contract
+      .connect(signer)
+      .submitEncryptedWineNote(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.handles[3],
+        encrypted.handles[4],
+        encrypted.handles[5],
+        encrypted.handles[6],
+        encrypted.handles[7],
+        encrypted.inputProof,
+      );
+  }
+
+  async function fillBatch(notes: Note[]) {
+    for (const note of notes) {
+      await (await submitNote(signers.alice, note)).wait();
+    }
+  }
+
+  // Red 80 + Red 60, White 70, Rose 50, Sparkling 90
+  const batchNotes: Note[] = [
+    { wineType: 0, rating: 80, price: 2500, tannins: 7, acidity: 5 },
+    { wineType: 0, rating: 60, price: 1800, tannins: 8, acidity: 4 },
+    { wineType: 1, rating: 70, price: 1500, tannins: 2, acidity: 8 },
+    { wineType: 2, rating: 50, price: 1200, tannins: 3, acidity: 6 },
+    { wineType: 3, rating: 90, price: 4000, tannins: 1, acidity: 9 },
+  ];
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+    await contract.grantRole(
+      await contract.PROVIDER_ROLE(),
+      signers.alice.address,
+    );
+    await contract.setCooldownSeconds(0);
+  });
+
+  describe("submission", function () {
+    it("reverts before any batch is opened", async function () {
+      await expect(
+        submitNote(signers.alice, {
+          wineType: 0,
+          rating: 80,
+          price: 2000,
+          tannins: 5,
+          acidity: 5,
+        }),
+      ).to.be.revertedWithCustomError(contract, "BatchClosedOrInvalid");
+    });
+
+    it("rejects callers without the provider role", async function () {
+      await contract.openBatch();
+      // Hardhat's tracer cannot always map reverts in this viaIR build back to
+      // the contract, and the fhevm plugin asserts when a send fails that way,
+      // so check the role gate through a static call. It runs before any input
+      // is read, so placeholder handles are enough.
+      const handle = ethers.ZeroHash;
+      await expect(
+        contract
+          .connect(signers.bob)
+          .submitEncryptedWineNote.staticCall(
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            "0x",
+          ),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+    });
+
+    it("rejects ciphertexts encrypted for another sender or contract", async function () {
+      await contract.openBatch();
+      const otherContract = (await deployFixture()).contractAddress;
+      for (const [target, user] of [
+        [contractAddress, signers.bob.address],
+        [otherContract, signers.alice.address],
+      ]) {
+        const input = fhevm.createEncryptedInput(target, user);
+        for (let i = 0; i < 3; i++) input.add8(1);
+        input.add32(1);
+        input.add32(2000);
+        for (let i = 0; i < 3; i++) input.add8(1);
+        const { handles, inputProof } = await input.encrypt();
+
+        // Static call for the same reason as the role gate test
+        await expect(
+          contract
+            .connect(signers.alice)
+            .submitEncryptedWineNote.staticCall(
+              handles[0],
+              handles[1],
+              handles[2],
+              handles[3],
+              handles[4],
+              handles[5],
+              handles[6],
+              handles[7],
+              inputProof,
+            ),
+          `${target} ${user}`,
+        ).to.be.reverted;
+      }
+    });
+
+    it("stores encrypted fields that only the submitter can decrypt", async function () {
+      await contract.openBatch();
+      await expect(
+        submitNote(signers.alice, {
+          wineType: 2,
+          rating: 87,
+          price: 3450,
+          tannins: 6,
+          acidity: 7,
+          region: 4,
+        }),
+      )
+        .to.emit(contract, "WineNoteSubmitted")
+        .withArgs(signers.alice.address, 1, 0);
+
+      const note = await contract.batchNotes(1, 0);
+      expect(await contract.noteSubmitter(1, 0)).to.eq(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          note.wineType,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(2);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          note.rating,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(87);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          note.price,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(3450);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          note.region,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(4);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          note.rating,
+          contractAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("enforces the cooldown between submissions", async function () {
+      await contract.setCooldownSeconds(60);
+      await contract.openBatch();
+      const note = {
+        wineType: 0,
+        rating: 80,
+        price: 2000,
+        tannins: 5,
+        acidity: 5,
+      };
+
+      await (await submitNote(signers.alice, note)).wait();
+      await expect(
+        submitNote(signers.alice, note),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      await time.increase(60);
+      await expect(submitNote(signers.alice, note)).to.emit(
+        contract,
+        "WineNoteSubmitted",
+      );
+    });
+  });
+
+  describe("scoring", function () {
+    beforeEach(async function () {
+      await contract.openBatch();
+    });
+
+    it("recommends a well rated, fairly priced wine", async function () {
+      await fillBatch([
+        { wineType: 0, rating: 90, price: 2000, tannins: 5, acidity: 5 },
+      ]);
+      await expect(contract.connect(signers.alice).scoreWineNote(1, 0)).to.emit(
+        contract,
+        "WineNoteScored",
+      );
+
+      const verdict = await contract.getNoteRecommendation(1, 0);
+      expect(
+        await fhevm.userDecryptEbool(verdict, contractAddress, signers.alice),
+      ).to.eq(true);
+    });
+
+    it("does not recommend a poorly rated, expensive wine", async function () {
+      await fillBatch([
+        { wineType: 0, rating: 20, price: 15000, tannins: 1, acidity: 1 },
+      ]);
+      await (await contract.connect(signers.alice).scoreWineNote(1, 0)).wait();
+
+      const verdict = await contract.getNoteRecommendation(1, 0);
+      expect(
+        await fhevm.userDecryptEbool(verdict, contractAddress, signers.alice),
+      ).to.eq(false);
+    });
+
+    it("only lets the submitter score a note", async function () {
+      await fillBatch([
+        { wineType: 0, rating: 90, price: 2000, tannins: 5, acidity: 5 },
+      ]);
+      await expect(
+        contract.connect(signers.bob).scoreWineNote(1, 0),
+      ).to.be.revertedWithCustomError(contract, "NotNoteOwner");
+      await expect(
+        contract.connect(signers.alice).scoreWineNote(1, 1),
+      ).to.be.revertedWithCustomError(contract, "InvalidNote");
+    });
+  });
+
+  describe("batches", function () {
+    it("rejects closing unknown or already closed batches", async function () {
+      await expect(contract.closeBatch(0)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchId",
+      );
+      await expect(contract.closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchId",
+      );
+
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+      await expect(contract.closeBatch(1))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(1);
+      await expect(contract.closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchId",
+      );
+    });
+
+    it("refuses to close a batch below the privacy threshold", async function () {
+      await contract.openBatch();
+      await fillBatch(batchNotes.slice(0, 4));
+      await expect(contract.closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "BatchBelowThreshold",
+      );
+    });
+
+    it("rejects submissions to a closed batch", async function () {
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+      await contract.closeBatch(1);
+      await expect(
+        submitNote(signers.alice, batchNotes[0]),
+      ).to.be.revertedWithCustomError(contract, "BatchClosedOrInvalid");
+    });
+
+    it("rejects recommendations for open batches", async function () {
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+      await expect(
+        contract.requestRecommendation(1),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatchId");
+    });
+
+    it("rolls over to a new batch once the size limit is reached", async function () {
+      await contract.setBatchPolicy(5, 0);
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+
+      await expect(submitNote(signers.alice, batchNotes[0]))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(1)
+        .and.to.emit(contract, "BatchOpened")
+        .withArgs(2);
+      expect(await contract.currentBatchId()).to.eq(2);
+    });
+
+    it("rolls over to a new batch once the time limit is reached", async function () {
+      await contract.setBatchPolicy(await contract.maxBatchNotes(), 3600);
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+
+      // Not expired yet, so the note still lands in the first batch
+      await expect(submitNote(signers.alice, batchNotes[0]))
+        .to.emit(contract, "WineNoteSubmitted")
+        .withArgs(signers.alice.address, 1, 5);
+
+      await time.increase(3600);
+      await expect(submitNote(signers.alice, batchNotes[0]))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(1)
+        .and.to.emit(contract, "BatchOpened")
+        .withArgs(2)
+        .and.to.emit(contract, "WineNoteSubmitted")
+        .withArgs(signers.alice.address, 2, 0);
+      expect(await contract.isBatchClosed(1)).to.eq(true);
+    });
+
+    it("keeps batch sizes between the privacy threshold and the cap", async function () {
+      const maxBatchNotes = await contract.MAX_BATCH_NOTES();
+      expect(await contract.maxBatchNotes()).to.be.within(
+        await contract.minBatchNotes(),
+        maxBatchNotes,
+      );
+
+      await expect(contract.setBatchPolicy(0, 0)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchPolicy",
+      );
+      await expect(contract.setBatchPolicy(4, 0)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchPolicy",
+      );
+      await expect(
+        contract.setBatchPolicy(maxBatchNotes + 1n, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatchPolicy");
+      await expect(contract.setBatchPolicy(maxBatchNotes, 0))
+        .to.emit(contract, "BatchPolicySet")
+        .withArgs(maxBatchNotes, 0);
+
+      await contract.setBatchPolicy(10, 0);
+      await expect(
+        contract.setPrivacyThreshold(11, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatchPolicy");
+    });
+  });
+
+  describe("taste profile", function () {
+    beforeEach(async function () {
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+    });
+
+    it("folds every submitted note into the submitter's profile", async function () {
+      const [ratingSums, counts, tanninSum, aciditySum, noteCount] =
+        await contract.getProfile(signers.alice.address);
+      expect(noteCount).to.eq(5);
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handle,
+          contractAddress,
+          signers.alice,
+        );
+      // One at a time, the mock decryptor does not handle concurrent requests
+      const decryptAll = async (handles: string[]) => {
+        const values = [];
+        for (const handle of handles) values.push(await decrypt(handle));
+        return values;
+      };
+      expect(await decryptAll(ratingSums)).to.deep.eq([140n, 70n, 50n, 90n]);
+      expect(await decryptAll(counts)).to.deep.eq([2n, 1n, 1n, 1n]);
+      expect(await decrypt(tanninSum)).to.eq(21);
+      expect(await decrypt(aciditySum)).to.eq(32);
+    });
+
+    it("picks the style with the best average rating", async function () {
+      await expect(contract.connect(signers.alice).getMyTopStyle())
+        .to.emit(contract, "TopStyleComputed")
+        .withArgs(signers.alice.address);
+
+      // Sparkling averages 90, Red only 70 despite the larger sum
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          await contract.getTopStyle(signers.alice.address),
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(3);
+      await expect(
+        contract.connect(signers.bob).getMyTopStyle(),
+      ).to.be.revertedWithCustomError(contract, "EmptyProfile");
+    });
+  });
+
+  describe("dish pairing", function () {
+    const cheese = 4;
+
+    async function pairDish(
+      signer: HardhatEthersSigner,
+      foodPairingId: number,
+    ) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      input.add8(foodPairingId);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract
+          .connect(signer)
+          .pairWineForDish(encrypted.handles[0], encrypted.inputProof),
+      )
+        .to.emit(contract, "DishPaired")
+        .withArgs(signer.address);
+      return fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await contract.getDishPairing(signer.address),
+        contractAddress,
+        signer,
+      );
+    }
+
+    it("pairs from the table alone without any history", async function () {
+      expect(await pairDish(signers.bob, 3)).to.eq(1); // Fish: White
+      expect(await pairDish(signers.bob, cheese)).to.eq(0); // Red and White tie, first wins
+    });
+
+    it("lets the favourite style win a close call", async function () {
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+
+      // Cheese weighs Sparkling one point below Red, and Sparkling is Alice's favourite
+      expect(await pairDish(signers.alice, cheese)).to.eq(3);
+      expect(await pairDish(signers.alice, 3)).to.eq(1);
+    });
+
+    it("lets curators retune the table", async function () {
+      await expect(contract.setPairingWeights(cheese, [0, 0, 10, 0]))
+        .to.emit(contract, "PairingWeightsSet")
+        .withArgs(cheese, [0, 0, 10, 0]);
+      expect(await contract.getPairingWeights(cheese)).to.deep.eq([
+        0n,
+        0n,
+        10n,
+        0n,
+      ]);
+      expect(await pairDish(signers.bob, cheese)).to.eq(2);
+
+      await expect(
+        contract.setPairingWeights(8, [0, 0, 0, 0]),
+      ).to.be.revertedWithCustomError(contract, "InvalidPairing");
+      await expect(
+        contract.setPairingWeights(cheese, [11, 0, 0, 0]),
+      ).to.be.revertedWithCustomError(contract, "InvalidPairing");
+    });
+  });
+
+  describe("catalog", function () {
+    const wines = [
+      {
+        name: "Sancerre",
+        wineType: 1,
+        region: 2,
+        tannins: 2,
+        acidity: 8,
+        priceBand: 1,
+        active: true,
+      },
+      {
+        name: "Rioja",
+        wineType: 0,
+        region: 5,
+        tannins: 7,
+        acidity: 5,
+        priceBand: 1,
+        active: true,
+      },
+      {
+        name: "Barolo",
+        wineType: 0,
+        region: 3,
+        tannins: 9,
+        acidity: 5,
+        priceBand: 3,
+        active: true,
+      },
+    ];
+
+    async function decryptBestMatch(signer: HardhatEthersSigner) {
+      await (await contract.connect(signer).findMyBestMatch()).wait();
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await contract.getBestMatch(signer.address),
+        contractAddress,
+        signer,
+      );
+    }
+
+    beforeEach(async function () {
+      for (const wine of wines) {
+        await contract.addCatalogWine(wine);
+      }
+    });
+
+    it("adds curated wines up to the size cap", async function () {
+      expect(await contract.catalogLength()).to.eq(3);
+      expect((await contract.catalog(1)).name).to.eq("Rioja");
+
+      await expect(
+        contract.connect(signers.bob).addCatalogWine.staticCall(wines[0]),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+      await expect(
+        contract.addCatalogWine({ ...wines[0], tannins: 11 }),
+      ).to.be.revertedWithCustomError(contract, "InvalidCatalogWine");
+
+      const maxCatalogSize = await contract.MAX_CATALOG_SIZE();
+      for (let i = 3n; i < maxCatalogSize; i++) {
+        await expect(contract.addCatalogWine(wines[0]))
+          .to.emit(contract, "CatalogWineAdded")
+          .withArgs(i);
+      }
+      await expect(
+        contract.addCatalogWine(wines[0]),
+      ).to.be.revertedWithCustomError(contract, "CatalogFull");
+    });
+
+    it("caps active wines, not removed ones", async function () {
+      const maxCatalogSize = await contract.MAX_CATALOG_SIZE();
+      for (let i = 3n; i < maxCatalogSize; i++) {
+        await contract.addCatalogWine(wines[0]);
+      }
+      expect(await contract.activeCatalogWines()).to.eq(maxCatalogSize);
+
+      // Removed wines keep their index, and inactive ones can still be listed
+      await contract.updateCatalogWine(1, { ...wines[1], active: false });
+      await contract.addCatalogWine({ ...wines[2], active: false });
+      await expect(contract.addCatalogWine(wines[2]))
+        .to.emit(contract, "CatalogWineAdded")
+        .withArgs(maxCatalogSize + 1n);
+      expect(await contract.catalogLength()).to.eq(maxCatalogSize + 2n);
+      expect(await contract.activeCatalogWines()).to.eq(maxCatalogSize);
+      expect((await contract.catalog(1)).name).to.eq("Rioja");
+
+      await expect(
+        contract.updateCatalogWine(1, wines[1]),
+      ).to.be.revertedWithCustomError(contract, "CatalogFull");
+      await contract.updateCatalogWine(0, {
+        ...wines[0],
+        name: "Pouilly-Fumé",
+      });
+      expect(await contract.activeCatalogWines()).to.eq(maxCatalogSize);
+    });
+
+    it("matches a profile against a full catalog", async function () {
+      const maxCatalogSize = await contract.MAX_CATALOG_SIZE();
+      for (let i = 3n; i < maxCatalogSize; i++) {
+        await contract.addCatalogWine(wines[0]);
+      }
+      await contract.openBatch();
+      await fillBatch([batchNotes[0]]);
+
+      // Red, tannins 7, acidity 5 at $25 is exactly the Rioja
+      expect(await decryptBestMatch(signers.alice)).to.eq(1);
+    });
+
+    it("skips removed wines when matching", async function () {
+      await contract.openBatch();
+      await fillBatch([batchNotes[0]]);
+
+      await expect(
+        contract.updateCatalogWine(1, { ...wines[1], active: false }),
+      )
+        .to.emit(contract, "CatalogWineUpdated")
+        .withArgs(1);
+      expect(await decryptBestMatch(signers.alice)).to.eq(2);
+
+      for (const wineId of [0, 2]) {
+        await contract.updateCatalogWine(wineId, {
+          ...wines[wineId],
+          active: false,
+        });
+      }
+      await expect(
+        contract.connect(signers.alice).findMyBestMatch(),
+      ).to.be.revertedWithCustomError(contract, "EmptyCatalog");
+    });
+
+    it("needs a taste profile to match against", async function () {
+      await expect(
+        contract.connect(signers.bob).findMyBestMatch(),
+      ).to.be.revertedWithCustomError(contract, "EmptyProfile");
+    });
+  });
+
+  describe("privacy threshold", function () {
+    it("waits for enough distinct providers before closing", async function () {
+      await contract.setPrivacyThreshold(5, 2);
+      await contract.grantRole(
+        await contract.PROVIDER_ROLE(),
+        signers.bob.address,
+      );
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+
+      expect(await contract.meetsPrivacyThreshold(1)).to.eq(false);
+      await expect(contract.closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "BatchBelowThreshold",
+      );
+
+      await (await submitNote(signers.bob, batchNotes[0])).wait();
+      expect(await contract.batchProviderCount(1)).to.eq(2);
+      expect(await contract.meetsPrivacyThreshold(1)).to.eq(true);
+      await expect(contract.closeBatch(1))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(1);
+    });
+
+    it("rejects a provider threshold no batch could meet", async function () {
+      await expect(
+        contract.setPrivacyThreshold(5, 6),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatchPolicy");
+      await expect(contract.setPrivacyThreshold(5, 5))
+        .to.emit(contract, "PrivacyThresholdSet")
+        .withArgs(5, 5);
+    });
+
+    it("keeps a full batch open until it has enough providers", async function () {
+      await contract.setPrivacyThreshold(5, 2);
+      await contract.setBatchPolicy(5, 0);
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+
+      await expect(submitNote(signers.alice, batchNotes[0]))
+        .to.emit(contract, "WineNoteSubmitted")
+        .withArgs(signers.alice.address, 1, 5);
+      expect(await contract.currentBatchId()).to.eq(1);
+    });
+
+    it("stops a batch waiting on providers at the hard cap", async function () {
+      this.timeout(600_000);
+      await contract.setPrivacyThreshold(5, 2);
+      await contract.setBatchPolicy(5, 0);
+      await contract.openBatch();
+      const maxBatchNotes = Number(await contract.MAX_BATCH_NOTES());
+      await fillBatch(
+        Array.from(
+          { length: maxBatchNotes },
+          (_, i) => batchNotes[i % batchNotes.length],
+        ),
+      );
+
+      // Checked before any input is read, see the role gate test
+      const handle = ethers.ZeroHash;
+      const submitPlaceholder = () =>
+        contract
+          .connect(signers.alice)
+          .submitEncryptedWineNote.staticCall(
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            "0x",
+          );
+      await expect(submitPlaceholder()).to.be.revertedWithCustomError(
+        contract,
+        "BatchFull",
+      );
+
+      await contract.setPrivacyThreshold(5, 1);
+      await expect(submitNote(signers.alice, batchNotes[0]))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(1)
+        .and.to.emit(contract, "WineNoteSubmitted")
+        .withArgs(signers.alice.address, 2, 0);
+    });
+  });
+
+  describe("records", function () {
+    beforeEach(async function () {
+      await contract.grantRole(
+        await contract.PROVIDER_ROLE(),
+        signers.bob.address,
+      );
+      await contract.openBatch();
+      await (await submitNote(signers.alice, batchNotes[0])).wait();
+      await (await submitNote(signers.bob, batchNotes[1])).wait();
+      await (await submitNote(signers.alice, batchNotes[2])).wait();
+    });
+
+    it("lists every record in submission order, one page at a time", async function () {
+      expect(await contract.recordCount()).to.eq(3);
+
+      const first = await contract.getRecords(0, 2);
+      expect(first.map((r) => r.recordId)).to.deep.eq([0n, 1n]);
+      expect(first.map((r) => r.provider)).to.deep.eq([
+        signers.alice.address,
+        signers.bob.address,
+      ]);
+      const note = await contract.batchNotes(1, 1);
+      expect(first[1].batchId).to.eq(1);
+      expect(first[1].noteIndex).to.eq(1);
+      expect(first[1].note.rating).to.eq(note.rating);
+
+      const rest = await contract.getRecords(2, 2);
+      expect(rest.map((r) => r.recordId)).to.deep.eq([2n]);
+      expect(await contract.getRecords(3, 2)).to.be.empty;
+    });
+
+    it("announces created and scored records", async function () {
+      await expect(submitNote(signers.bob, batchNotes[3]))
+        .to.emit(contract, "RecordCreated")
+        .withArgs(3, signers.bob.address, 1, 3);
+      await expect(contract.connect(signers.bob).scoreWineNote(1, 3))
+        .to.emit(contract, "RecordUpdated")
+        .withArgs(3, signers.bob.address);
+    });
+
+    it("indexes records by owner", async function () {
+      expect(await contract.recordCountByOwner(signers.alice.address)).to.eq(2);
+      const mine = await contract.getRecordsByOwner(
+        signers.alice.address,
+        0,
+        10,
+      );
+      expect(mine.map((r) => r.recordId)).to.deep.eq([0n, 2n]);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          mine[1].note.wineType,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(1);
+      expect(await contract.getRecordsByOwner(signers.deployer.address, 0, 10))
+        .to.be.empty;
+    });
+
+    it("hands a record and its decryption rights to a new owner", async function () {
+      await expect(
+        contract.connect(signers.bob).transferRecord(0, signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "NotNoteOwner");
+
+      await expect(
+        contract.connect(signers.alice).transferRecord(0, signers.bob.address),
+      )
+        .to.emit(contract, "RecordTransferred")
+        .withArgs(0, signers.alice.address, signers.bob.address)
+        .and.to.emit(contract, "RecordUpdated")
+        .withArgs(0, signers.bob.address);
+
+      const [record] = await contract.getRecords(0, 1);
+      expect(record.provider).to.eq(signers.alice.address);
+      expect(record.owner).to.eq(signers.bob.address);
+      const bobs = await contract.getRecordsByOwner(signers.bob.address, 0, 10);
+      expect(bobs.map((r) => r.recordId)).to.deep.eq([1n, 0n]);
+      expect(
+        (await contract.getRecordsByOwner(signers.alice.address, 0, 10)).map(
+          (r) => r.recordId,
+        ),
+      ).to.deep.eq([2n]);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          record.note.rating,
+          contractAddress,
+          signers.bob,
+        ),
+      ).to.eq(80);
+
+      await expect(
+        contract.connect(signers.alice).scoreWineNote(1, 0),
+      ).to.be.revertedWithCustomError(contract, "NotNoteOwner");
+      await expect(contract.connect(signers.bob).scoreWineNote(1, 0)).to.emit(
+        contract,
+        "WineNoteScored",
+      );
+    });
+
+    it("lets only the owner delete a record", async function () {
+      await expect(
+        contract.connect(signers.bob).deleteRecord(0),
+      ).to.be.revertedWithCustomError(contract, "NotNoteOwner");
+
+      await expect(contract.connect(signers.alice).deleteRecord(0))
+        .to.emit(contract, "RecordDeleted")
+        .withArgs(0, signers.alice.address)
+        .and.to.emit(contract, "RecordUpdated")
+        .withArgs(0, ethers.ZeroAddress);
+
+      expect(await contract.recordCount()).to.eq(3);
+      const [record] = await contract.getRecords(0, 1);
+      expect(record.owner).to.eq(ethers.ZeroAddress);
+      expect(await contract.recordCountByOwner(signers.alice.address)).to.eq(1);
+      await expect(
+        contract.connect(signers.alice).deleteRecord(0),
+      ).to.be.revertedWithCustomError(contract, "InvalidRecord");
+      await expect(
+        contract.connect(signers.alice).scoreWineNote(1, 0),
+      ).to.be.revertedWithCustomError(contract, "NotNoteOwner");
+    });
+  });
+
+  describe("recommendation decryption", function () {
+    let requestId: bigint;
+
+    beforeEach(async function () {
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+      await contract.closeBatch(1);
+
+      const receipt = await (await contract.requestRecommendation(1)).wait();
+      const requested = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((event) => event?.name === "RecommendationRequested");
+      requestId = requested!.args.requestId;
+    });
+
+    it("decrypts the per-type rating sums and picks the favourite", async function () {
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.isBatchAnalyzed(1)).to.eq(true);
+      const [scores, topWineType] = await contract.getBatchRecommendation(1);
+      expect(scores).to.deep.eq([140n, 70n, 50n, 90n]);
+      expect(topWineType).to.eq(0);
+    });
+
+    it("reports no recommendation before the oracle answers", async function () {
+      await expect(
+        contract.getBatchRecommendation(1),
+      ).to.be.revertedWithCustomError(contract, "RecommendationNotReady");
+    });
+
+    it("rejects a replayed callback", async function () {
+      await fhevm.awaitDecryptionOracle();
+      await expect(
+        contract.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayAttempt");
+    });
+
+    it("rejects a callback for a request that was never made", async function () {
+      await expect(
+        contract.myCallback(requestId + 1n, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "NoHandleFoundForRequestID");
+    });
+
+    it("decrypts a batch too large to aggregate in a single transaction", async function () {
+      await contract.openBatch();
+      // Five rounds of batchNotes minus the last Sparkling note
+      const notes = Array.from(
+        { length: 24 },
+        (_, i) => batchNotes[i % batchNotes.length],
+      );
+      await fillBatch(notes);
+      await contract.closeBatch(2);
+
+      await (await contract.requestRecommendation(2)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [scores, topWineType] = await contract.getBatchRecommendation(2);
+      expect(scores).to.deep.eq([700n, 350n, 250n, 360n]);
+      expect(topWineType).to.eq(0);
+    });
+
+    it("adds bounded noise to every score when configured", async function () {
+      await expect(contract.setNoiseConfig(3, 1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidNoiseConfig",
+      );
+      await expect(
+        contract.setNoiseConfig(16, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidNoiseConfig");
+      await expect(contract.setNoiseConfig(16, 2))
+        .to.emit(contract, "NoiseConfigSet")
+        .withArgs(16, 2);
+
+      await contract.openBatch();
+      await fillBatch(batchNotes);
+      await contract.closeBatch(2);
+      for (let i = 0; i < 2; i++) {
+        await (await contract.requestRecommendation(2)).wait();
+        await fhevm.awaitDecryptionOracle();
+
+        const [scores] = await contract.getBatchRecommendation(2);
+        [140n, 70n, 50n, 90n].forEach((sum, t) => {
+          expect(scores[t])
+            .to.be.gte(sum)
+            .and.lt(sum + 16n);
+        });
+      }
+      await expect(
+        contract.requestRecommendation(2),
+      ).to.be.revertedWithCustomError(contract, "PrivacyBudgetExhausted");
+    });
+
+    it("spends the batch decryption budget", async function () {
+      await expect(
+        contract.requestRecommendation(1),
+      ).to.be.revertedWithCustomError(contract, "PrivacyBudgetExhausted");
+    });
+  });
+
+  describe("roles", function () {
+    it("lets admins grant and revoke roles", async function () {
+      const curator = await contract.CATALOG_CURATOR_ROLE();
+      const wine = {
+        name: "Chablis",
+        wineType: 1,
+        region: 1,
+        tannins: 1,
+        acidity: 9,
+        priceBand: 2,
+        active: true,
+      };
+      await expect(
+        contract
+          .connect(signers.bob)
+          .grantRole.staticCall(curator, signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+
+      await expect(contract.grantRole(curator, signers.bob.address))
+        .to.emit(contract, "RoleGranted")
+        .withArgs(curator, signers.bob.address, signers.deployer.address);
+      await expect(contract.connect(signers.bob).addCatalogWine(wine)).to.emit(
+        contract,
+        "CatalogWineAdded",
+      );
+
+      await expect(contract.revokeRole(curator, signers.bob.address))
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(curator, signers.bob.address, signers.deployer.address);
+      expect(await contract.hasRole(curator, signers.bob.address)).to.eq(false);
+      await expect(
+        contract.connect(signers.bob).addCatalogWine.staticCall(wine),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+    });
+
+    it("lets other admins manage roles too", async function () {
+      await contract.grantRole(
+        await contract.ADMIN_ROLE(),
+        signers.bob.address,
+      );
+      await contract
+        .connect(signers.bob)
+        .revokeRole(await contract.PROVIDER_ROLE(), signers.alice.address);
+      expect(await contract.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("lets an account renounce its own role", async function () {
+      await expect(
+        contract
+          .connect(signers.alice)
+          .renounceRole(await contract.PROVIDER_ROLE()),
+      )
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(
+          await contract.PROVIDER_ROLE(),
+          signers.alice.address,
+          signers.alice.address,
+        );
+      expect(await contract.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("stops submissions while paused", async function () {
+      await contract.openBatch();
+      await expect(
+        contract.connect(signers.bob).pause.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+      await expect(contract.pause())
+        .to.emit(contract, "ContractPaused")
+        .withArgs(signers.deployer.address);
+      // Static call for the same reason as the provider role check above
+      const handle = ethers.ZeroHash;
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitEncryptedWineNote.staticCall(
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            handle,
+            "0x",
+          ),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+
+      await contract.unpause();
+      await expect(submitNote(signers.alice, batchNotes[0])).to.emit(
+        contract,
+        "WineNoteSubmitted",
+      );
+    });
+  });
+
+  describe("ownership", function () {
+    it("only hands over ownership once the new owner accepts", async function () {
+      await expect(
+        contract.transferOwnership(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(contract, "InvalidOwner");
+
+      await contract.transferOwnership(signers.alice.address);
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+      await expect(
+        contract.connect(signers.bob).acceptOwnership(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+
+      await expect(contract.connect(signers.alice).acceptOwnership())
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await contract.owner()).to.eq(signers.alice.address);
+      expect(await contract.pendingOwner()).to.eq(ethers.ZeroAddress);
+    });
+
+    it("moves the owner's roles to the new owner", async function () {
+      const roles = await Promise.all([
+        contract.ADMIN_ROLE(),
+        contract.BATCH_OPERATOR_ROLE(),
+        contract.PROVIDER_ROLE(),
+        contract.CATALOG_CURATOR_ROLE(),
+        contract.PAUSER_ROLE(),
+      ]);
+      await contract.transferOwnership(signers.bob.address);
+      await contract.connect(signers.bob).acceptOwnership();
+
+      for (const role of roles) {
+        expect(await contract.hasRole(role, signers.deployer.address)).to.eq(
+          false,
+        );
+        expect(await contract.hasRole(role, signers.bob.address)).to.eq(true);
+      }
+      // Roles granted to other accounts stay where they are
+      expect(await contract.isProvider(signers.alice.address)).to.eq(true);
+      await expect(contract.pause.staticCall()).to.be.revertedWithCustomError(
+        contract,
+        "MissingRole",
+      );
+      await expect(
+        contract.grantRole.staticCall(roles[0], signers.deployer.address),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+      await expect(contract.connect(signers.bob).pause()).to.emit(
+        contract,
+        "ContractPaused",
+      );
+    });
+
+    it("lets the owner cancel a pending transfer", async function () {
+      await expect(
+        contract.cancelOwnershipTransfer(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+
+      await contract.transferOwnership(signers.alice.address);
+      await expect(
+        contract.connect(signers.alice).cancelOwnershipTransfer(),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.cancelOwnershipTransfer())
+        .to.emit(contract, "OwnershipTransferCanceled")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      expect(await contract.pendingOwner()).to.eq(ethers.ZeroAddress);
+      await expect(
+        contract.connect(signers.alice).acceptOwnership(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("renounces ownership and the owner's roles for good", async function () {
+      await contract.grantRole(
+        await contract.BATCH_OPERATOR_ROLE(),
+        signers.bob.address,
+      );
+      await contract.transferOwnership(signers.alice.address);
+      await expect(contract.renounceOwnership())
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, ethers.ZeroAddress);
+
+      expect(await contract.owner()).to.eq(ethers.ZeroAddress);
+      expect(await contract.pendingOwner()).to.eq(ethers.ZeroAddress);
+      expect(
+        await contract.hasRole(
+          await contract.ADMIN_ROLE(),
+          signers.deployer.address,
+        ),
+      ).to.eq(false);
+      await expect(
+        contract.connect(signers.alice).acceptOwnership.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+      await expect(
+        contract.transferOwnership.staticCall(signers.alice.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+
+      // Roles held by other accounts keep working
+      await expect(
+        contract.openBatch.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+      await expect(contract.connect(signers.bob).openBatch())
+        .to.emit(contract, "BatchOpened")
+        .withArgs(1);
+    });
+  });
+});
@@ -0,0 +1,2488 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace AISommelierFHE {
+  export type CatalogWineStruct = {
+    name: string;
+    wineType: BigNumberish;
+    region: BigNumberish;
+    tannins: BigNumberish;
+    acidity: BigNumberish;
+    priceBand: BigNumberish;
+    active: boolean;
+  };
+
+  export type CatalogWineStructOutput = [
+    name: string,
+    wineType: bigint,
+    region: bigint,
+    tannins: bigint,
+    acidity: bigint,
+    priceBand: bigint,
+    active: boolean
+  ] & {
+    name: string;
+    wineType: bigint;
+    region: bigint;
+    tannins: bigint;
+    acidity: bigint;
+    priceBand: bigint;
+    active: boolean;
+  };
+
+  export type EncryptedWineNoteStruct = {
+    wineType: BytesLike;
+    rating: BytesLike;
+    foodPairingId: BytesLike;
+    userId: BytesLike;
+    price: BytesLike;
+    tannins: BytesLike;
+    acidity: BytesLike;
+    region: BytesLike;
+  };
+
+  export type EncryptedWineNoteStructOutput = [
+    wineType: string,
+    rating: string,
+    foodPairingId: string,
+    userId: string,
+    price: string,
+    tannins: string,
+    acidity: string,
+    region: string
+  ] & {
+    wineType: string;
+    rating: string;
+    foodPairingId: string;
+    userId: string;
+    price: string;
+    tannins: string;
+    acidity: string;
+    region: string;
+  };
+
+  export type WineRecordStruct = {
+    recordId: BigNumberish;
+    batchId: BigNumberish;
+    noteIndex: BigNumberish;
+    provider: AddressLike;
+    owner: AddressLike;
+    timestamp: BigNumberish;
+    note: AISommelierFHE.EncryptedWineNoteStruct;
+    recommendation: BytesLike;
+  };
+
+  export type WineRecordStructOutput = [
+    recordId: bigint,
+    batchId: bigint,
+    noteIndex: bigint,
+    provider: string,
+    owner: string,
+    timestamp: bigint,
+    note: AISommelierFHE.EncryptedWineNoteStructOutput,
+    recommendation: string
+  ] & {
+    recordId: bigint;
+    batchId: bigint;
+    noteIndex: bigint;
+    provider: string;
+    owner: string;
+    timestamp: bigint;
+    note: AISommelierFHE.EncryptedWineNoteStructOutput;
+    recommendation: string;
+  };
+}
+
+export interface AISommelierFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "BATCH_OPERATOR_ROLE"
+      | "CATALOG_CURATOR_ROLE"
+      | "MAX_BATCH_NOTES"
+      | "MAX_CATALOG_SIZE"
+      | "MAX_PAIRING_WEIGHT"
+      | "PAIRING_DISHES"
+      | "PAUSER_ROLE"
+      | "PROVIDER_ROLE"
+      | "acceptOwnership"
+      | "activeCatalogWines"
+      | "addCatalogWine"
+      | "batchDecryptionBudget"
+      | "batchDecryptionCount"
+      | "batchNotes"
+      | "batchOpenedAt"
+      | "batchProviderCount"
+      | "cancelOwnershipTransfer"
+      | "catalog"
+      | "catalogLength"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "deleteRecord"
+      | "findMyBestMatch"
+      | "getBatchRecommendation"
+      | "getBestMatch"
+      | "getDishPairing"
+      | "getMyTopStyle"
+      | "getNoteRecommendation"
+      | "getPairingWeights"
+      | "getProfile"
+      | "getRecords"
+      | "getRecordsByOwner"
+      | "getTopStyle"
+      | "grantRole"
+      | "hasRole"
+      | "isBatchAnalyzed"
+      | "isBatchClosed"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "maxBatchDuration"
+      | "maxBatchNotes"
+      | "meetsPrivacyThreshold"
+      | "minBatchNotes"
+      | "minBatchProviders"
+      | "myCallback"
+      | "noiseScale"
+      | "noteSubmitter"
+      | "openBatch"
+      | "owner"
+      | "pairWineForDish"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "protocolId"
+      | "recordCount"
+      | "recordCountByOwner"
+      | "renounceOwnership"
+      | "renounceRole"
+      | "requestRecommendation"
+      | "revokeRole"
+      | "scoreWineNote"
+      | "setBatchPolicy"
+      | "setCooldownSeconds"
+      | "setNoiseConfig"
+      | "setPairingWeights"
+      | "setPrivacyThreshold"
+      | "submitEncryptedWineNote"
+      | "transferOwnership"
+      | "transferRecord"
+      | "unpause"
+      | "updateCatalogWine"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "BatchPolicySet"
+      | "BestMatchComputed"
+      | "CatalogWineAdded"
+      | "CatalogWineUpdated"
+      | "ContractPaused"
+      | "ContractUnpaused"
+      | "CooldownSecondsSet"
+      | "DecryptionFulfilled"
+      | "DishPaired"
+      | "NoiseConfigSet"
+      | "OwnershipTransferCanceled"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "PairingWeightsSet"
+      | "PrivacyThresholdSet"
+      | "RecommendationCompleted"
+      | "RecommendationRequested"
+      | "RecordCreated"
+      | "RecordDeleted"
+      | "RecordTransferred"
+      | "RecordUpdated"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "TopStyleComputed"
+      | "WineNoteScored"
+      | "WineNoteSubmitted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "BATCH_OPERATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CATALOG_CURATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_NOTES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CATALOG_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAIRING_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAIRING_DISHES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROVIDER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activeCatalogWines",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addCatalogWine",
+    values: [AISommelierFHE.CatalogWineStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchDecryptionBudget",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchDecryptionCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchNotes",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchOpenedAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchProviderCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOwnershipTransfer",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "catalog",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "catalogLength",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deleteRecord",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "findMyBestMatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchRecommendation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBestMatch",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDishPairing",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMyTopStyle",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getNoteRecommendation",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairingWeights",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProfile",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecords",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecordsByOwner",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTopStyle",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchAnalyzed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchClosed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxBatchDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxBatchNotes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "meetsPrivacyThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minBatchNotes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minBatchProviders",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "noiseScale",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "noteSubmitter",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pairWineForDish",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordCountByOwner",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRecommendation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scoreWineNote",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBatchPolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setNoiseConfig",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPairingWeights",
+    values: [
+      BigNumberish,
+      [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPrivacyThreshold",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedWineNote",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferRecord",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateCatalogWine",
+    values: [BigNumberish, AISommelierFHE.CatalogWineStruct]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "BATCH_OPERATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CATALOG_CURATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_NOTES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CATALOG_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAIRING_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAIRING_DISHES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PROVIDER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activeCatalogWines",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addCatalogWine",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchDecryptionBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchDecryptionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchNotes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchOpenedAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchProviderCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOwnershipTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "catalog", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "catalogLength",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deleteRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "findMyBestMatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchRecommendation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBestMatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDishPairing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMyTopStyle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getNoteRecommendation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairingWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getProfile", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getRecords", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getRecordsByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTopStyle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchAnalyzed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchClosed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxBatchDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxBatchNotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "meetsPrivacyThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minBatchNotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minBatchProviders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "noiseScale", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "noteSubmitter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairWineForDish",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordCountByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRecommendation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "scoreWineNote",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBatchPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setNoiseConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPairingWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPrivacyThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedWineNote",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateCatalogWine",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchPolicySetEvent {
+  export type InputTuple = [
+    maxBatchNotes: BigNumberish,
+    maxBatchDuration: BigNumberish
+  ];
+  export type OutputTuple = [maxBatchNotes: bigint, maxBatchDuration: bigint];
+  export interface OutputObject {
+    maxBatchNotes: bigint;
+    maxBatchDuration: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BestMatchComputedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CatalogWineAddedEvent {
+  export type InputTuple = [wineId: BigNumberish];
+  export type OutputTuple = [wineId: bigint];
+  export interface OutputObject {
+    wineId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CatalogWineUpdatedEvent {
+  export type InputTuple = [wineId: BigNumberish];
+  export type OutputTuple = [wineId: bigint];
+  export interface OutputObject {
+    wineId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractPausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractUnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DishPairedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NoiseConfigSetEvent {
+  export type InputTuple = [
+    noiseScale: BigNumberish,
+    batchDecryptionBudget: BigNumberish
+  ];
+  export type OutputTuple = [noiseScale: bigint, batchDecryptionBudget: bigint];
+  export interface OutputObject {
+    noiseScale: bigint;
+    batchDecryptionBudget: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferCanceledEvent {
+  export type InputTuple = [
+    previousOwner: AddressLike,
+    canceledOwner: AddressLike
+  ];
+  export type OutputTuple = [previousOwner: string, canceledOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    canceledOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairingWeightsSetEvent {
+  export type InputTuple = [
+    foodPairingId: BigNumberish,
+    weights: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ];
+  export type OutputTuple = [
+    foodPairingId: bigint,
+    weights: [bigint, bigint, bigint, bigint]
+  ];
+  export interface OutputObject {
+    foodPairingId: bigint;
+    weights: [bigint, bigint, bigint, bigint];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrivacyThresholdSetEvent {
+  export type InputTuple = [
+    minBatchNotes: BigNumberish,
+    minBatchProviders: BigNumberish
+  ];
+  export type OutputTuple = [minBatchNotes: bigint, minBatchProviders: bigint];
+  export interface OutputObject {
+    minBatchNotes: bigint;
+    minBatchProviders: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecommendationCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    recommendationResults: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    recommendationResults: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    recommendationResults: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecommendationRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordCreatedEvent {
+  export type InputTuple = [
+    recordId: BigNumberish,
+    owner: AddressLike,
+    batchId: BigNumberish,
+    noteIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    recordId: bigint,
+    owner: string,
+    batchId: bigint,
+    noteIndex: bigint
+  ];
+  export interface OutputObject {
+    recordId: bigint;
+    owner: string;
+    batchId: bigint;
+    noteIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordDeletedEvent {
+  export type InputTuple = [recordId: BigNumberish, owner: AddressLike];
+  export type OutputTuple = [recordId: bigint, owner: string];
+  export interface OutputObject {
+    recordId: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordTransferredEvent {
+  export type InputTuple = [
+    recordId: BigNumberish,
+    previousOwner: AddressLike,
+    newOwner: AddressLike
+  ];
+  export type OutputTuple = [
+    recordId: bigint,
+    previousOwner: string,
+    newOwner: string
+  ];
+  export interface OutputObject {
+    recordId: bigint;
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordUpdatedEvent {
+  export type InputTuple = [recordId: BigNumberish, owner: AddressLike];
+  export type OutputTuple = [recordId: bigint, owner: string];
+  export interface OutputObject {
+    recordId: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TopStyleComputedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WineNoteScoredEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    noteIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    noteIndex: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    noteIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WineNoteSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    noteIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    noteIndex: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    noteIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AISommelierFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AISommelierFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AISommelierFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  BATCH_OPERATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  CATALOG_CURATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MAX_BATCH_NOTES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CATALOG_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAIRING_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  PAIRING_DISHES: TypedContractMethod<[], [bigint], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PROVIDER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  activeCatalogWines: TypedContractMethod<[], [bigint], "view">;
+
+  addCatalogWine: TypedContractMethod<
+    [wine: AISommelierFHE.CatalogWineStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  batchDecryptionBudget: TypedContractMethod<[], [bigint], "view">;
+
+  batchDecryptionCount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  batchNotes: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, string, string, string, string] & {
+        wineType: string;
+        rating: string;
+        foodPairingId: string;
+        userId: string;
+        price: string;
+        tannins: string;
+        acidity: string;
+        region: string;
+      }
+    ],
+    "view"
+  >;
+
+  batchOpenedAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchProviderCount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  cancelOwnershipTransfer: TypedContractMethod<[], [void], "nonpayable">;
+
+  catalog: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, boolean] & {
+        name: string;
+        wineType: bigint;
+        region: bigint;
+        tannins: bigint;
+        acidity: bigint;
+        priceBand: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  catalogLength: TypedContractMethod<[], [bigint], "view">;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { batchId: bigint; processed: boolean }],
+    "view"
+  >;
+
+  deleteRecord: TypedContractMethod<
+    [recordId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  findMyBestMatch: TypedContractMethod<[], [string], "nonpayable">;
+
+  getBatchRecommendation: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [[bigint, bigint, bigint, bigint], bigint] & {
+        scores: [bigint, bigint, bigint, bigint];
+        topWineType: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getBestMatch: TypedContractMethod<[user: AddressLike], [string], "view">;
+
+  getDishPairing: TypedContractMethod<[user: AddressLike], [string], "view">;
+
+  getMyTopStyle: TypedContractMethod<[], [string], "nonpayable">;
+
+  getNoteRecommendation: TypedContractMethod<
+    [batchId: BigNumberish, noteIndex: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getPairingWeights: TypedContractMethod<
+    [foodPairingId: BigNumberish],
+    [[bigint, bigint, bigint, bigint]],
+    "view"
+  >;
+
+  getProfile: TypedContractMethod<
+    [user: AddressLike],
+    [
+      [
+        [string, string, string, string],
+        [string, string, string, string],
+        string,
+        string,
+        bigint
+      ] & {
+        ratingSums: [string, string, string, string];
+        counts: [string, string, string, string];
+        tanninSum: string;
+        aciditySum: string;
+        noteCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRecords: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [AISommelierFHE.WineRecordStructOutput[]],
+    "view"
+  >;
+
+  getRecordsByOwner: TypedContractMethod<
+    [account: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [AISommelierFHE.WineRecordStructOutput[]],
+    "view"
+  >;
+
+  getTopStyle: TypedContractMethod<[user: AddressLike], [string], "view">;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isBatchAnalyzed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  isBatchClosed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  maxBatchDuration: TypedContractMethod<[], [bigint], "view">;
+
+  maxBatchNotes: TypedContractMethod<[], [bigint], "view">;
+
+  meetsPrivacyThreshold: TypedContractMethod<
+    [batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  minBatchNotes: TypedContractMethod<[], [bigint], "view">;
+
+  minBatchProviders: TypedContractMethod<[], [bigint], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  noiseScale: TypedContractMethod<[], [bigint], "view">;
+
+  noteSubmitter: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pairWineForDish: TypedContractMethod<
+    [_foodPairingId: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recordCount: TypedContractMethod<[], [bigint], "view">;
+
+  recordCountByOwner: TypedContractMethod<
+    [account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  renounceRole: TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+
+  requestRecommendation: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  scoreWineNote: TypedContractMethod<
+    [batchId: BigNumberish, noteIndex: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  setBatchPolicy: TypedContractMethod<
+    [newMaxBatchNotes: BigNumberish, newMaxBatchDuration: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setNoiseConfig: TypedContractMethod<
+    [newNoiseScale: BigNumberish, newBatchDecryptionBudget: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPairingWeights: TypedContractMethod<
+    [
+      foodPairingId: BigNumberish,
+      weights: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setPrivacyThreshold: TypedContractMethod<
+    [newMinBatchNotes: BigNumberish, newMinBatchProviders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedWineNote: TypedContractMethod<
+    [
+      _wineType: BytesLike,
+      _rating: BytesLike,
+      _foodPairingId: BytesLike,
+      _userId: BytesLike,
+      _price: BytesLike,
+      _tannins: BytesLike,
+      _acidity: BytesLike,
+      _region: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferRecord: TypedContractMethod<
+    [recordId: BigNumberish, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  updateCatalogWine: TypedContractMethod<
+    [wineId: BigNumberish, wine: AISommelierFHE.CatalogWineStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "BATCH_OPERATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "CATALOG_CURATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_NOTES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CATALOG_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAIRING_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAIRING_DISHES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PROVIDER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "activeCatalogWines"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addCatalogWine"
+  ): TypedContractMethod<
+    [wine: AISommelierFHE.CatalogWineStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "batchDecryptionBudget"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchDecryptionCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchNotes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, string, string, string, string] & {
+        wineType: string;
+        rating: string;
+        foodPairingId: string;
+        userId: string;
+        price: string;
+        tannins: string;
+        acidity: string;
+        region: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchOpenedAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchProviderCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelOwnershipTransfer"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "catalog"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, boolean] & {
+        name: string;
+        wineType: bigint;
+        region: bigint;
+        tannins: bigint;
+        acidity: bigint;
+        priceBand: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "catalogLength"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { batchId: bigint; processed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "deleteRecord"
+  ): TypedContractMethod<[recordId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "findMyBestMatch"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getBatchRecommendation"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [[bigint, bigint, bigint, bigint], bigint] & {
+        scores: [bigint, bigint, bigint, bigint];
+        topWineType: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBestMatch"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getDishPairing"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getMyTopStyle"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getNoteRecommendation"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, noteIndex: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPairingWeights"
+  ): TypedContractMethod<
+    [foodPairingId: BigNumberish],
+    [[bigint, bigint, bigint, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProfile"
+  ): TypedContractMethod<
+    [user: AddressLike],
+    [
+      [
+        [string, string, string, string],
+        [string, string, string, string],
+        string,
+        string,
+        bigint
+      ] & {
+        ratingSums: [string, string, string, string];
+        counts: [string, string, string, string];
+        tanninSum: string;
+        aciditySum: string;
+        noteCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRecords"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [AISommelierFHE.WineRecordStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRecordsByOwner"
+  ): TypedContractMethod<
+    [account: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [AISommelierFHE.WineRecordStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTopStyle"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isBatchAnalyzed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isBatchClosed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxBatchDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxBatchNotes"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "meetsPrivacyThreshold"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "minBatchNotes"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minBatchProviders"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "noiseScale"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "noteSubmitter"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pairWineForDish"
+  ): TypedContractMethod<
+    [_foodPairingId: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordCountByOwner"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestRecommendation"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scoreWineNote"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, noteIndex: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBatchPolicy"
+  ): TypedContractMethod<
+    [newMaxBatchNotes: BigNumberish, newMaxBatchDuration: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setNoiseConfig"
+  ): TypedContractMethod<
+    [newNoiseScale: BigNumberish, newBatchDecryptionBudget: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPairingWeights"
+  ): TypedContractMethod<
+    [
+      foodPairingId: BigNumberish,
+      weights: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPrivacyThreshold"
+  ): TypedContractMethod<
+    [newMinBatchNotes: BigNumberish, newMinBatchProviders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedWineNote"
+  ): TypedContractMethod<
+    [
+      _wineType: BytesLike,
+      _rating: BytesLike,
+      _foodPairingId: BytesLike,
+      _userId: BytesLike,
+      _price: BytesLike,
+      _tannins: BytesLike,
+      _acidity: BytesLike,
+      _region: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferRecord"
+  ): TypedContractMethod<
+    [recordId: BigNumberish, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateCatalogWine"
+  ): TypedContractMethod<
+    [wineId: BigNumberish, wine: AISommelierFHE.CatalogWineStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchPolicySet"
+  ): TypedContractEvent<
+    BatchPolicySetEvent.InputTuple,
+    BatchPolicySetEvent.OutputTuple,
+    BatchPolicySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BestMatchComputed"
+  ): TypedContractEvent<
+    BestMatchComputedEvent.InputTuple,
+    BestMatchComputedEvent.OutputTuple,
+    BestMatchComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CatalogWineAdded"
+  ): TypedContractEvent<
+    CatalogWineAddedEvent.InputTuple,
+    CatalogWineAddedEvent.OutputTuple,
+    CatalogWineAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CatalogWineUpdated"
+  ): TypedContractEvent<
+    CatalogWineUpdatedEvent.InputTuple,
+    CatalogWineUpdatedEvent.OutputTuple,
+    CatalogWineUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractPaused"
+  ): TypedContractEvent<
+    ContractPausedEvent.InputTuple,
+    ContractPausedEvent.OutputTuple,
+    ContractPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractUnpaused"
+  ): TypedContractEvent<
+    ContractUnpausedEvent.InputTuple,
+    ContractUnpausedEvent.OutputTuple,
+    ContractUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DishPaired"
+  ): TypedContractEvent<
+    DishPairedEvent.InputTuple,
+    DishPairedEvent.OutputTuple,
+    DishPairedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NoiseConfigSet"
+  ): TypedContractEvent<
+    NoiseConfigSetEvent.InputTuple,
+    NoiseConfigSetEvent.OutputTuple,
+    NoiseConfigSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferCanceled"
+  ): TypedContractEvent<
+    OwnershipTransferCanceledEvent.InputTuple,
+    OwnershipTransferCanceledEvent.OutputTuple,
+    OwnershipTransferCanceledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairingWeightsSet"
+  ): TypedContractEvent<
+    PairingWeightsSetEvent.InputTuple,
+    PairingWeightsSetEvent.OutputTuple,
+    PairingWeightsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrivacyThresholdSet"
+  ): TypedContractEvent<
+    PrivacyThresholdSetEvent.InputTuple,
+    PrivacyThresholdSetEvent.OutputTuple,
+    PrivacyThresholdSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecommendationCompleted"
+  ): TypedContractEvent<
+    RecommendationCompletedEvent.InputTuple,
+    RecommendationCompletedEvent.OutputTuple,
+    RecommendationCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecommendationRequested"
+  ): TypedContractEvent<
+    RecommendationRequestedEvent.InputTuple,
+    RecommendationRequestedEvent.OutputTuple,
+    RecommendationRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordCreated"
+  ): TypedContractEvent<
+    RecordCreatedEvent.InputTuple,
+    RecordCreatedEvent.OutputTuple,
+    RecordCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordDeleted"
+  ): TypedContractEvent<
+    RecordDeletedEvent.InputTuple,
+    RecordDeletedEvent.OutputTuple,
+    RecordDeletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordTransferred"
+  ): TypedContractEvent<
+    RecordTransferredEvent.InputTuple,
+    RecordTransferredEvent.OutputTuple,
+    RecordTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordUpdated"
+  ): TypedContractEvent<
+    RecordUpdatedEvent.InputTuple,
+    RecordUpdatedEvent.OutputTuple,
+    RecordUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TopStyleComputed"
+  ): TypedContractEvent<
+    TopStyleComputedEvent.InputTuple,
+    TopStyleComputedEvent.OutputTuple,
+    TopStyleComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WineNoteScored"
+  ): TypedContractEvent<
+    WineNoteScoredEvent.InputTuple,
+    WineNoteScoredEvent.OutputTuple,
+    WineNoteScoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "WineNoteSubmitted"
+  ): TypedContractEvent<
+    WineNoteSubmittedEvent.InputTuple,
+    WineNoteSubmittedEvent.OutputTuple,
+    WineNoteSubmittedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchPolicySet(uint256,uint256)": TypedContractEvent<
+      BatchPolicySetEvent.InputTuple,
+      BatchPolicySetEvent.OutputTuple,
+      BatchPolicySetEvent.OutputObject
+    >;
+    BatchPolicySet: TypedContractEvent<
+      BatchPolicySetEvent.InputTuple,
+      BatchPolicySetEvent.OutputTuple,
+      BatchPolicySetEvent.OutputObject
+    >;
+
+    "BestMatchComputed(address)": TypedContractEvent<
+      BestMatchComputedEvent.InputTuple,
+      BestMatchComputedEvent.OutputTuple,
+      BestMatchComputedEvent.OutputObject
+    >;
+    BestMatchComputed: TypedContractEvent<
+      BestMatchComputedEvent.InputTuple,
+      BestMatchComputedEvent.OutputTuple,
+      BestMatchComputedEvent.OutputObject
+    >;
+
+    "CatalogWineAdded(uint256)": TypedContractEvent<
+      CatalogWineAddedEvent.InputTuple,
+      CatalogWineAddedEvent.OutputTuple,
+      CatalogWineAddedEvent.OutputObject
+    >;
+    CatalogWineAdded: TypedContractEvent<
+      CatalogWineAddedEvent.InputTuple,
+      CatalogWineAddedEvent.OutputTuple,
+      CatalogWineAddedEvent.OutputObject
+    >;
+
+    "CatalogWineUpdated(uint256)": TypedContractEvent<
+      CatalogWineUpdatedEvent.InputTuple,
+      CatalogWineUpdatedEvent.OutputTuple,
+      CatalogWineUpdatedEvent.OutputObject
+    >;
+    CatalogWineUpdated: TypedContractEvent<
+      CatalogWineUpdatedEvent.InputTuple,
+      CatalogWineUpdatedEvent.OutputTuple,
+      CatalogWineUpdatedEvent.OutputObject
+    >;
+
+    "ContractPaused(address)": TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+    ContractPaused: TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+
+    "ContractUnpaused(address)": TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+    ContractUnpaused: TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DishPaired(address)": TypedContractEvent<
+      DishPairedEvent.InputTuple,
+      DishPairedEvent.OutputTuple,
+      DishPairedEvent.OutputObject
+    >;
+    DishPaired: TypedContractEvent<
+      DishPairedEvent.InputTuple,
+      DishPairedEvent.OutputTuple,
+      DishPairedEvent.OutputObject
+    >;
+
+    "NoiseConfigSet(uint32,uint256)": TypedContractEvent<
+      NoiseConfigSetEvent.InputTuple,
+      NoiseConfigSetEvent.OutputTuple,
+      NoiseConfigSetEvent.OutputObject
+    >;
+    NoiseConfigSet: TypedContractEvent<
+      NoiseConfigSetEvent.InputTuple,
+      NoiseConfigSetEvent.OutputTuple,
+      NoiseConfigSetEvent.OutputObject
+    >;
+
+    "OwnershipTransferCanceled(address,address)": TypedContractEvent<
+      OwnershipTransferCanceledEvent.InputTuple,
+      OwnershipTransferCanceledEvent.OutputTuple,
+      OwnershipTransferCanceledEvent.OutputObject
+    >;
+    OwnershipTransferCanceled: TypedContractEvent<
+      OwnershipTransferCanceledEvent.InputTuple,
+      OwnershipTransferCanceledEvent.OutputTuple,
+      OwnershipTransferCanceledEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PairingWeightsSet(uint8,uint8[4])": TypedContractEvent<
+      PairingWeightsSetEvent.InputTuple,
+      PairingWeightsSetEvent.OutputTuple,
+      PairingWeightsSetEvent.OutputObject
+    >;
+    PairingWeightsSet: TypedContractEvent<
+      PairingWeightsSetEvent.InputTuple,
+      PairingWeightsSetEvent.OutputTuple,
+      PairingWeightsSetEvent.OutputObject
+    >;
+
+    "PrivacyThresholdSet(uint256,uint256)": TypedContractEvent<
+      PrivacyThresholdSetEvent.InputTuple,
+      PrivacyThresholdSetEvent.OutputTuple,
+      PrivacyThresholdSetEvent.OutputObject
+    >;
+    PrivacyThresholdSet: TypedContractEvent<
+      PrivacyThresholdSetEvent.InputTuple,
+      PrivacyThresholdSetEvent.OutputTuple,
+      PrivacyThresholdSetEvent.OutputObject
+    >;
+
+    "RecommendationCompleted(uint256,uint256,uint256[])": TypedContractEvent<
+      RecommendationCompletedEvent.InputTuple,
+      RecommendationCompletedEvent.OutputTuple,
+      RecommendationCompletedEvent.OutputObject
+    >;
+    RecommendationCompleted: TypedContractEvent<
+      RecommendationCompletedEvent.InputTuple,
+      RecommendationCompletedEvent.OutputTuple,
+      RecommendationCompletedEvent.OutputObject
+    >;
+
+    "RecommendationRequested(uint256,uint256)": TypedContractEvent<
+      RecommendationRequestedEvent.InputTuple,
+      RecommendationRequestedEvent.OutputTuple,
+      RecommendationRequestedEvent.OutputObject
+    >;
+    RecommendationRequested: TypedContractEvent<
+      RecommendationRequestedEvent.InputTuple,
+      RecommendationRequestedEvent.OutputTuple,
+      RecommendationRequestedEvent.OutputObject
+    >;
+
+    "RecordCreated(uint256,address,uint256,uint256)": TypedContractEvent<
+      RecordCreatedEvent.InputTuple,
+      RecordCreatedEvent.OutputTuple,
+      RecordCreatedEvent.OutputObject
+    >;
+    RecordCreated: TypedContractEvent<
+      RecordCreatedEvent.InputTuple,
+      RecordCreatedEvent.OutputTuple,
+      RecordCreatedEvent.OutputObject
+    >;
+
+    "RecordDeleted(uint256,address)": TypedContractEvent<
+      RecordDeletedEvent.InputTuple,
+      RecordDeletedEvent.OutputTuple,
+      RecordDeletedEvent.OutputObject
+    >;
+    RecordDeleted: TypedContractEvent<
+      RecordDeletedEvent.InputTuple,
+      RecordDeletedEvent.OutputTuple,
+      RecordDeletedEvent.OutputObject
+    >;
+
+    "RecordTransferred(uint256,address,address)": TypedContractEvent<
+      RecordTransferredEvent.InputTuple,
+      RecordTransferredEvent.OutputTuple,
+      RecordTransferredEvent.OutputObject
+    >;
+    RecordTransferred: TypedContractEvent<
+      RecordTransferredEvent.InputTuple,
+      RecordTransferredEvent.OutputTuple,
+      RecordTransferredEvent.OutputObject
+    >;
+
+    "RecordUpdated(uint256,address)": TypedContractEvent<
+      RecordUpdatedEvent.InputTuple,
+      RecordUpdatedEvent.OutputTuple,
+      RecordUpdatedEvent.OutputObject
+    >;
+    RecordUpdated: TypedContractEvent<
+      RecordUpdatedEvent.InputTuple,
+      RecordUpdatedEvent.OutputTuple,
+      RecordUpdatedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "TopStyleComputed(address)": TypedContractEvent<
+      TopStyleComputedEvent.InputTuple,
+      TopStyleComputedEvent.OutputTuple,
+      TopStyleComputedEvent.OutputObject
+    >;
+    TopStyleComputed: TypedContractEvent<
+      TopStyleComputedEvent.InputTuple,
+      TopStyleComputedEvent.OutputTuple,
+      TopStyleComputedEvent.OutputObject
+    >;
+
+    "WineNoteScored(address,uint256,uint256)": TypedContractEvent<
+      WineNoteScoredEvent.InputTuple,
+      WineNoteScoredEvent.OutputTuple,
+      WineNoteScoredEvent.OutputObject
+    >;
+    WineNoteScored: TypedContractEvent<
+      WineNoteScoredEvent.InputTuple,
+      WineNoteScoredEvent.OutputTuple,
+      WineNoteScoredEvent.OutputObject
+    >;
+
+    "WineNoteSubmitted(address,uint256,uint256)": TypedContractEvent<
+      WineNoteSubmittedEvent.InputTuple,
+      WineNoteSubmittedEvent.OutputTuple,
+      WineNoteSubmittedEvent.OutputObject
+    >;
+    WineNoteSubmitted: TypedContractEvent<
+      WineNoteSubmittedEvent.InputTuple,
+      WineNoteSubmittedEvent.OutputTuple,
+      WineNoteSubmittedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as aiSommelierFheSol from "./AI_Sommelier_Fhe.sol";
+export type { aiSommelierFheSol };
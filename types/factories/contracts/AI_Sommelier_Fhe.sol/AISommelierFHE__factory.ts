@@ -0,0 +1,2300 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  AISommelierFHE,
+  AISommelierFHEInterface,
+} from "../../../contracts/AI_Sommelier_Fhe.sol/AISommelierFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchBelowThreshold",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedOrInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchFull",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CatalogFull",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyCatalog",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyProfile",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchPolicy",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCatalogWine",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidNoiseConfig",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidNote",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPairing",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRecord",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotNoteOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PrivacyBudgetExhausted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RecommendationNotReady",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxBatchNotes",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxBatchDuration",
+        type: "uint256",
+      },
+    ],
+    name: "BatchPolicySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "BestMatchComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "wineId",
+        type: "uint256",
+      },
+    ],
+    name: "CatalogWineAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "wineId",
+        type: "uint256",
+      },
+    ],
+    name: "CatalogWineUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "DishPaired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "noiseScale",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchDecryptionBudget",
+        type: "uint256",
+      },
+    ],
+    name: "NoiseConfigSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "canceledOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferCanceled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint8",
+        name: "foodPairingId",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint8[4]",
+        name: "weights",
+        type: "uint8[4]",
+      },
+    ],
+    name: "PairingWeightsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minBatchNotes",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minBatchProviders",
+        type: "uint256",
+      },
+    ],
+    name: "PrivacyThresholdSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "recommendationResults",
+        type: "uint256[]",
+      },
+    ],
+    name: "RecommendationCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "RecommendationRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "noteIndex",
+        type: "uint256",
+      },
+    ],
+    name: "RecordCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "RecordDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "RecordTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "RecordUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "TopStyleComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "noteIndex",
+        type: "uint256",
+      },
+    ],
+    name: "WineNoteScored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "noteIndex",
+        type: "uint256",
+      },
+    ],
+    name: "WineNoteSubmitted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "BATCH_OPERATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CATALOG_CURATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_NOTES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CATALOG_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAIRING_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAIRING_DISHES",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PROVIDER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "activeCatalogWines",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint8",
+            name: "wineType",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "region",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "tannins",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "acidity",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "priceBand",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "active",
+            type: "bool",
+          },
+        ],
+        internalType: "struct AISommelierFHE.CatalogWine",
+        name: "wine",
+        type: "tuple",
+      },
+    ],
+    name: "addCatalogWine",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchDecryptionBudget",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchDecryptionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchNotes",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "wineType",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "rating",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "foodPairingId",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "userId",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "price",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "tannins",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "acidity",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "region",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchOpenedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchProviderCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelOwnershipTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "catalog",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "wineType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "region",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "tannins",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "acidity",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "priceBand",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "catalogLength",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+    ],
+    name: "deleteRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "findMyBestMatch",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchRecommendation",
+    outputs: [
+      {
+        internalType: "uint256[4]",
+        name: "scores",
+        type: "uint256[4]",
+      },
+      {
+        internalType: "uint8",
+        name: "topWineType",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getBestMatch",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getDishPairing",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMyTopStyle",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "noteIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getNoteRecommendation",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "foodPairingId",
+        type: "uint8",
+      },
+    ],
+    name: "getPairingWeights",
+    outputs: [
+      {
+        internalType: "uint8[4]",
+        name: "",
+        type: "uint8[4]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getProfile",
+    outputs: [
+      {
+        internalType: "euint32[4]",
+        name: "ratingSums",
+        type: "bytes32[4]",
+      },
+      {
+        internalType: "euint32[4]",
+        name: "counts",
+        type: "bytes32[4]",
+      },
+      {
+        internalType: "euint32",
+        name: "tanninSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "aciditySum",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "noteCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getRecords",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "recordId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "noteIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "provider",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "euint8",
+                name: "wineType",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "rating",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "foodPairingId",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "userId",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "price",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "tannins",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "acidity",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "region",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct AISommelierFHE.EncryptedWineNote",
+            name: "note",
+            type: "tuple",
+          },
+          {
+            internalType: "ebool",
+            name: "recommendation",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct AISommelierFHE.WineRecord[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getRecordsByOwner",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "recordId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "noteIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "provider",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "euint8",
+                name: "wineType",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "rating",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "foodPairingId",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "userId",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "price",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "tannins",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "acidity",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint8",
+                name: "region",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct AISommelierFHE.EncryptedWineNote",
+            name: "note",
+            type: "tuple",
+          },
+          {
+            internalType: "ebool",
+            name: "recommendation",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct AISommelierFHE.WineRecord[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getTopStyle",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchAnalyzed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchClosed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxBatchDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxBatchNotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "meetsPrivacyThreshold",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minBatchNotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minBatchProviders",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "noiseScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "noteSubmitter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "_foodPairingId",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "pairWineForDish",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recordCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "recordCountByOwner",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestRecommendation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "noteIndex",
+        type: "uint256",
+      },
+    ],
+    name: "scoreWineNote",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newMaxBatchNotes",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newMaxBatchDuration",
+        type: "uint256",
+      },
+    ],
+    name: "setBatchPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newNoiseScale",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "newBatchDecryptionBudget",
+        type: "uint256",
+      },
+    ],
+    name: "setNoiseConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "foodPairingId",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8[4]",
+        name: "weights",
+        type: "uint8[4]",
+      },
+    ],
+    name: "setPairingWeights",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newMinBatchNotes",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newMinBatchProviders",
+        type: "uint256",
+      },
+    ],
+    name: "setPrivacyThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "_wineType",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "_rating",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "_foodPairingId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_userId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_price",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "_tannins",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "_acidity",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "_region",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedWineNote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recordId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "wineId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint8",
+            name: "wineType",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "region",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "tannins",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "acidity",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "priceBand",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "active",
+            type: "bool",
+          },
+        ],
+        internalType: "struct AISommelierFHE.CatalogWine",
+        name: "wine",
+        type: "tuple",
+      },
+    ],
+    name: "updateCatalogWine",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000ac5575f60606200001762000ac9565b82815282602082015282604082015201526200003262000ac9565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f5560405160a0810160018060401b03918082108383111762000ab15760a0916040523690376040519060a082019081118282101762000ab1576040527fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177581527f52e466598c5e4408cbbaf840ea4dbd39f3e0aa1ba17a69b571858fba5698291f60208201527f18d9ff454de989bd126b06bd404b47ede75f9e65543e94e8d212f89d7dcbb87c60408201527f529e097f2fa8f465ce7c9d351b2768dab8483b79629792f97c711a09503511e360608201527f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a60808201525f5b60059081811015620002e157806001921b830151828060a01b035f5416815f5260028060205260405f20825f5260205260ff60405f2054161562000294575b505050016200024b565b825f5260205260405f20815f5260205260405f208460ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a45f80806200028a565b603c6004556005600c556040600a556001601155620002ff62000ac9565b600581526005602082015260056040820152600560608201525f5b6004811062000a9657505f808052601e6020527f65ce8396b736f5da9d881cc6fbcb11ef9721292dc41ec8c40879fd9edea5744d82825b6004811062000a6657505055604051905f825b6004821062000a4c575f5f805160206200672a833981519152608086a26200038b62000ac9565b600a81526002602082015260046040820152600260608201525f5b6004811062000a315760015f818152601e60205283907f873299c6a6c39b8b92f01922bb622df4a3236ea2876aac2da76f6c092cf7e98f82825b6004811062000a0257505055604051905f825b60048210620009ea57845f805160206200672a833981519152608086a26200041a62000ac9565b600581526008602082015260066040820152600460608201525f5b60048110620009cf575060025f908152601e6020527f8a1ea6ccfdf9f988bdc16303c81231f9b192785454b34880c28e5c30362354c582825b600481106200099f57505055604051905f825b60048210620009855760025f805160206200672a833981519152608086a2620004a962000ac9565b60018152600a602082015260056040820152600760608201525f5b600481106200096a575060035f908152601e6020527f4bbb14a9b8bdd7baf7e45936eef68b1d3b69ec665e4d3d9f22d086627a2b088082825b600481106200093a57505055604051905f825b60048210620009205760035f805160206200672a833981519152608086a26200053862000ac9565b600781526007602082015260046040820152600660608201525f5b6004811062000905575060045f908152601e6020527f2eca6469c5988648711d819e241e59ec9e94a879e5d491ce337260f9e754141282825b60048110620008d557505055604051905f825b60048210620008bb5760045f805160206200672a833981519152608086a2620005c762000ac9565b600781526006602082015260066040820152600360608201525f5b60048110620008a0575060055f908152601e6020527f86d72ecda2f02015d839a182675ed983893a479e8f4279fb5498fd7244fa5dfe82825b600481106200087057505055604051905f825b60048210620008565760055f805160206200672a833981519152608086a26200065662000ac9565b600381526007602082015260086040820152600560608201525f5b600481106200083b575060065f908152601e6020527f3b995de482df97a2c9d456eaddef4a2d8e37e8b7ceaa84df3200ae34890448f382825b600481106200080b57505055604051905f825b60048210620007f15760065f805160206200672a833981519152608086a2620006e562000ac9565b600281526005602082015260046040820152600960608201525f5b60048110620007c4575060075f908152601e6020527f07e07990268d552e861c3b3b30762ae1d401e128d88dcdc061f5fba57e7ac9f882825b600481106200079457505055604051905f825b600482106200077a5760075f805160206200672a833981519152608086a2604051615c40908162000aea8239f35b60208060019260ff8651168152019301910190916200074c565b90926020620007ba6001928460ff885116919060ff809160031b9316831b921b19161790565b9401910162000739565b600a60ff8260051b8401511611620007df5760010162000700565b604051630184a3e760e41b8152600490fd5b60208060019260ff865116815201930191019091620006bd565b90926020620008316001928460ff885116919060ff809160031b9316831b921b19161790565b94019101620006aa565b600a60ff8260051b8401511611620007df5760010162000671565b60208060019260ff8651168152019301910190916200062e565b90926020620008966001928460ff885116919060ff809160031b9316831b921b19161790565b940191016200061b565b600a60ff8260051b8401511611620007df57600101620005e2565b60208060019260ff8651168152019301910190916200059f565b90926020620008fb6001928460ff885116919060ff809160031b9316831b921b19161790565b940191016200058c565b600a60ff8260051b8401511611620007df5760010162000553565b60208060019260ff86511681520193019101909162000510565b90926020620009606001928460ff885116919060ff809160031b9316831b921b19161790565b94019101620004fd565b600a60ff8260051b8401511611620007df57600101620004c4565b60208060019260ff86511681520193019101909162000481565b90926020620009c56001928460ff885116919060ff809160031b9316831b921b19161790565b940191016200046e565b600a60ff8260051b8401511611620007df5760010162000435565b825160ff1681526020928301929185019101620003f3565b9092602062000a2787928460ff885116919060ff809160031b9316831b921b19161790565b94019101620003e0565b600a60ff8260051b8401511611620007df57600101620003a6565b60208060019260ff86511681520193019101909162000364565b9092602062000a8c6001928460ff885116919060ff809160031b9316831b921b19161790565b9401910162000351565b600a60ff8260051b8401511611620007df576001016200031a565b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b60405190608082016001600160401b0381118382101762000ab15760405256fe6080806040526004361015610012575f80fd5b5f9060e05f35811c91826304c7a7cd14613e0857508163061f981114613d885781630a763da114613d6b5781630f40cf3614613d445781630f53a47014613ca057816311c452c014613c8357816311ebc55214613c54578163124bd04b146138a15781631e6852ef1461379c57816320c81cbd1461308f57816323452b9c1461302a57816324b0fbe614612bf557816324c20a3414612bce57816325875d5814612b535781632e060b3214612b365781632f2ff15d14612ac55781633307a14514612a9b57816333f9a98414612a7e578163392d0d2c146129d95781633b36b34a146124675781633b711490146123585781633f4ba83a146122bb578163474c71f5146122985781634def4ccd14611c985781635a94a079146122605781635c975abb1461223e5781636558d7af1461214357816368d0dfd3146120be5781636b074a071461205d578163715018a614611f5e57816375b238fc14611f375781637842cc4514611eb357816379ba509714611d745781637b5b115714611cda5781638005cd9414611cb357816380ec0bae14611c985781638389cc0714611c705781638444a2da14611bbc5781638456cb5914611b1d5781638545a3d714611ae25781638a2ffbeb14611a205781638bb9c5bf14611a015781638da5cb5b146119da578163900407bc146119bd57816391d1485414611974578163938ce711146117fd57816396bec9c7146117d35781639cd4fb201461179c5781639d8ca95b14611780578163a0569b5714611706578163a1586f43146116b1578163a436547614611679578163b46d91231461155f578163b5353a0f14611544578163b65e89411461150c578163b68d91e7146114ef578163b8221bc4146114d2578163b84ec96a14610ff6578163c5068f5414610fcb578163d090e98114610fad578163d2c411d314610ee2578163d2df119714610eb8578163d547741f14610e47578163da1f12ab14610e2a578163e30c397814610e01578163e46a3f8514610dc4578163e63ab1e914610d9c578163ea5de25b14610c73578163eedced4214610ad657508063f028773d14610ab8578063f2fde38b14610a23578063f43c0629146103e1578063f765aaec146103a8578063fc149a4f146103795763ffa49c3a14610359575f80fd5b346103765780600319360112610376576020601d54604051908152f35b80fd5b50346103765760203660031901126103765760ff60406020926004358152600884522054166040519015158152f35b5034610376576020366003190112610376576020906040906001600160a01b036103d0613e98565b168152601883522054604051908152f35b503461037657806003193601126103765760ff60035416610a1157338152601b60205260408120600e810191825480156109ff5761042e6104339163ffffffff6008860154911690615513565b6153f0565b9061046461045061042e600986015463ffffffff88541690615513565b9463ffffffff600a86015491541690615513565b80811591826109eb575b5f80516020615b74833981519152546040516385362ee760e01b815260048101929092526105dc6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af180156107d5575f906109b7575b6104d291506153f0565b9181816109a3575b5f80516020615b74833981519152546040516385362ee760e01b81526004810192909252610bb86024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156107d5575f91610971575b505f9361054461054a926153f0565b90615496565b919061095f575b5f80516020615b74833981519152546040516385362ee760e01b815260048101929092526117706024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af19182156107d5575f92610929575b506105446105ba926153f0565b6105c384614ccb565b9282938392849785965b601c548810156108c5576105e08861414c565b50600181015460ff8160281c16156108b95760ff600161063261062061060e8461063c9660101c168c615692565b610544858589015460181c168a615692565b610544848488015460201c168a615692565b93015416866149f8565b905f610646615852565b92602060018060a01b035f80516020615b748339815191525416604460405180958193639cd07acb60e01b8352600a6004840152600260248401525af19182156107d5575f92610883575b50906106a09361054492615a39565b908a15610863578190878215610853575b8815610841575b5f80516020615b7483398151915254604051637210768160e01b8152600481019490945260248401919091526001600160f81b03198a166044840152602090839060649082908d906001600160a01b03165af18015610836578990610802575b610732925061072c63ffffffff8c1661594b565b90615a39565b958082156107f2575b156107e0575b602090606460018060a01b035f80516020615b748339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af180156107d5575f9061079e575b60019150975b0196946105cd565b506020813d6020116107cd575b816107b860209383613f50565b810103126107c95760019051610790565b5f80fd5b3d91506107ab565b6040513d5f823e3d90fd5b5060206107eb615852565b9050610741565b91506107fc615852565b9161073b565b506020823d60201161082e575b8161081c60209383613f50565b810103126107c9576107329151610718565b3d915061080f565b6040513d8b823e3d90fd5b50602061084c615852565b90506106b8565b915061085d615852565b916106b1565b50945095975061087863ffffffff891661594b565b939560018099610796565b91506020823d6020116108b1575b8161089e60209383613f50565b810103126107c9579051906106a0610691565b3d9150610891565b50509496600190610796565b8689918b156109175780600c6020946108de30846154bf565b6108e833846154bf565b0155604051917fba271282c6a216d6b91c42b98b788889fd02d3134348ad7313eb428da5884d47339180a28152f35b604051630328055160e51b8152600490fd5b91506020823d602011610957575b8161094460209383613f50565b810103126107c9579051906105446105ad565b3d9150610937565b50602061096a615800565b9050610551565b90506020813d60201161099b575b8161098c60209383613f50565b810103126107c957515f610535565b3d915061097f565b505f60206109af615800565b9150506104da565b506020813d6020116109e3575b816109d160209383613f50565b810103126107c9576104d290516104c8565b3d91506109c4565b505f60206109f7615800565b91505061046e565b60405163f8c7ec3560e01b8152600490fd5b6040516313d0ff5960e31b8152600490fd5b503461037657602036600319011261037657610a3d613e98565b81546001600160a01b039081169133839003610aa65716908115610a9457600180546001600160a01b031916831790557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227008380a380f35b6040516349e27cff60e01b8152600490fd5b6040516330cd747160e01b8152600490fd5b50346103765780600319360112610376576020601c54604051908152f35b905034610c6f57600319604036820112610c6b5760043591602435906001600160401b038211610c675781600401928236030112610c63575f80516020615b34833981519152808552600260205260408520335f5260205260ff60405f2054161580610c5b575b610c3d5750601c54831015610c2b5760c490610b588361476d565b01610b6281614272565b80610c10575b15610bb05750610b8990610b7a614844565b610b838361414c565b906142bf565b7f67f3e3c7246aaab8f7d6a87ca0322b02d6dc1c87e1413ed8c7ffab09cd7a9d538280a280f35b610bb990614272565b1580610bf6575b610bce575b610b8990610b7a565b601d548015610be2575f1901601d55610bc5565b634e487b7160e01b84526011600452602484fd5b5060ff6001610c048461414c565b50015460281c16610bc0565b5060ff6001610c1e8561414c565b50015460281c1615610b68565b60405163b491874b60e01b8152600490fd5b604490604051906301d4003760e61b82526004820152336024820152fd5b506001610b3d565b8380fd5b8480fd5b8280fd5b5080fd5b905034610c6f57602080600319360112610c6b57600435601c54811015610c6357610c9d9061414c565b50604051848195908354610cb081614184565b91828552600191876001821691825f14610d76575050600114610d3a575b50505060019291610ce0910386613f50565b015460ff908181610cfb6040519787899889528801906141dd565b9482821681880152828260081c166040880152828260101c166060880152828260181c1660808801521c1660a085015260281c16151560c08301520390f35b91908693508583528383205b828410610d5e5750505082010181610ce06001610cce565b8054848b018601528995508794909301928101610d46565b60ff19168782015293151560051b86019093019350849250610ce0915060019050610cce565b823461037657806003193601126103765760206040515f80516020615b948339815191528152f35b823461037657602036600319011261037657602090600d906040906001600160a01b03610def613e98565b168152601b8452200154604051908152f35b82346103765780600319360112610376576001546040516001600160a01b039091168152602090f35b823461037657806003193601126103765760206040516127118152f35b823461037657604036600319011261037657610e61613eae565b5f80516020615c14833981519152808352600260205260408320335f5260205260ff60405f2054161580610ea4575b610c3d5750610ea190600435615083565b80f35b5082546001600160a01b0316331415610e90565b82346103765760203660031901126103765760406020916004358152600e83522054604051908152f35b8234610376576020366003190112610376576004355f80516020615b54833981519152808352600260205260408320335f5260205260ff60405f2054161580610fa5575b610c3d575060ff60035416610a115780158015610f9a575b8015610f84575b610f7257610f52816145b9565b15610f6057610ea190615125565b604051634a5656bf60e01b8152600490fd5b604051633b98df6560e01b8152600490fd5b50808252600860205260ff604083205416610f45565b506007548111610f3e565b506001610f26565b82346103765780600319360112610376576020600d54604051908152f35b823461037657602036600319011261037657602090600b906040906001600160a01b03610def613e98565b82346107c9576020806003193601126107c957600435905f80516020615bf4833981519152805f526002825260405f20335f52825260ff60405f20541615806114ca575b610c3d575060ff60035416610a1157811580156114bf575b80156114a9575b610f7257335f526006815261107560405f20546004549061448e565b421061149757611084826145b9565b15610f6057815f526012815260405f2054601154111561148557815f52601681526110b160405f20614202565b9063ffffffff60109080601054166113cf575b5050604051926110d384613eeb565b600484528184019260803685375f5b6004811061139c5750507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f80516020615bb4833981519152549095906001600160a01b03908116803b156107c9575f6040518092637d6e912360e11b8252886004830152818381611159602482018a615168565b03925af180156107d557611389575b5087907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610c6f57816040518092633263b83b60e01b82528a6004830152606060248301528183816111c2606482018a615168565b63124bd04b60e01b604483015203925af1801561137e57611366575b508690527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018085526040882054611354578688528452604087209051906001600160401b039586831161134057600160401b831161134057815483835580841061131b575b50908852848820885b838110611309575050505061126181546144d4565b90556040516040810193818510908511176112f5577fdd386587d5cd9d9f11b8b68d2cef1bc21b11fef9352b33e0add18f81f3a1a12f93604052818152600183820191878352868852601f85526040882090518155019051151560ff801983541691161790553385526006825242604086205580855260128252604085206112e981546144d4565b9055604051908152a280f35b634e487b7160e01b5f52604160045260245ffd5b8251828201559186019160010161124c565b828a5283878b2091820191015b8181106113355750611243565b5f8155600101611328565b634e487b7160e01b89526041600452602489fd5b604051633f06d22b60e01b8152600490fd5b61136f90613f06565b61137a5786886111de565b8680fd5b6040513d84823e3d90fd5b611394919850613f06565b5f9688611168565b6001906113b3306113ad838661424d565b516154bf565b6113bd818461424d565b516113c8828961425e565b52016110e2565b5f5b600481106113df57506110c4565b6113e9818661424d565b51905f8584865416604460018060a01b035f80516020615b7483398151915254169160405194859384926324777a3f60e11b84526004840152600460248401525af19081156107d5575f91611457575b50611446906001936150f6565b611450828861424d565b52016113d1565b90508581813d831161147e575b61146e8183613f50565b810103126107c957516001611439565b503d611464565b60405163330b444360e21b8152600490fd5b60405163aa9a98df60e01b8152600490fd5b50815f526008815260ff60405f20541615611059565b506007548211611052565b50600161103a565b346107c9575f3660031901126107c9576020600454604051908152f35b346107c9575f3660031901126107c9576020600b54604051908152f35b346107c95760203660031901126107c9576004355f52601f6020526040805f2060ff6001825492015416825191825215156020820152f35b346107c9575f3660031901126107c9576020604051600a8152f35b346107c95760403660031901126107c95760043563ffffffff808216918281036107c957335f9081525f80516020615bd4833981519152602052604090205460243592905f80516020615c148339815191529060ff161580611665575b610c3d57508315918215611638575b5050158015611630575b61161e57816040917f41800020569a72a08d86a8dc4b3b55a65441736fca18d8353ee5c21d012975069363ffffffff1960105416176010558060115582519182526020820152a1005b604051630fc2fb3360e01b8152600490fd5b5080156115d5565b9091505f198401908282116116515716161583806115cb565b634e487b7160e01b5f52601160045260245ffd5b505f546001600160a01b03163314156115bc565b346107c95760203660031901126107c9576001600160a01b0361169a613e98565b165f526005602052602060405f2054604051908152f35b346107c9576116bf3661411d565b90805f52601360205260405f20548210156116f4575f52601560205260405f20905f52602052602060405f2054604051908152f35b6040516324317f8b60e11b8152600490fd5b346107c9576117206117173661411d565b90601754614b9a565b61173261172d8383614481565b614555565b91805b82811061174e576040518061174a8682614041565b0390f35b8061177961175d600193614bcd565b6117678584614481565b90611772828961425e565b528661425e565b5001611735565b346107c9575f3660031901126107c95760206040516101008152f35b346107c9576117aa3661411d565b905f52601460205260405f20905f52602052602060018060a01b0360405f205416604051908152f35b346107c95760203660031901126107c9576004355f526009602052602060405f2054604051908152f35b346107c95760a03660031901126107c957611816614001565b60a43660a4116107c957335f9081527f71baccaceb0ab224a6569a8ca1234dd3c8057e955fb474cb09ed33a62e08f879602090815260409091205460ff93905f80516020615b34833981519152908516158061196c575b610c3d575083906040519361188185613f35565b6024855b82821061194c575050501692600884101561193a575f5b6004811061191e5750835f52601e825260405f209083905f935f5b600481106118f957877f07adbe24829c43adcee612c583686a85c5e57dd609aa43b8dba3c6d34e5a06816118f48989895560405191829182614011565b0390a2005b8351600382901b84811b1990971690841690961b9590951794928101926001016118b7565b600a8261192b838761424d565b51161161193a5760010161189c565b604051630184a3e760e41b8152600490fd5b9080929394503587811681036107c9578152869392918501908501611885565b50600161186d565b346107c95760403660031901126107c95761198d613eae565b6004355f52600260205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346107c9575f3660031901126107c9576020601754604051908152f35b346107c9575f3660031901126107c9575f546040516001600160a01b039091168152602090f35b346107c95760203660031901126107c957611a1e33600435615083565b005b346107c957611a2e3661411d565b335f9081525f80516020615bd483398151915260205260409020545f80516020615c148339815191529060ff161580611ace575b610c3d5750600c5482108015611ac3575b611ab157816040917f39d8d83d8d6386cece810f09aa0bdd886d7413c61cbc708ab9f42d39933b0e8793600a5580600b5582519182526020820152a1005b60405163b8d182d560e01b8152600490fd5b506101008211611a73565b505f546001600160a01b0316331415611a62565b346107c95760203660031901126107c9576001600160a01b03611b03613e98565b165f52601b6020526020600c60405f200154604051908152f35b346107c9575f3660031901126107c957335f9081527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b9360205260409020545f80516020615b948339815191529060ff161580611bb4575b610c3d5760035460ff8116610a115760ff1916600117600355337f81990fd9a5c552b8e3677917d8a03c07678f0d2cb68f88b634aca2022e9bd19f5f80a2005b506001611b74565b346107c957611bca3661411d565b335f9081525f80516020615bd483398151915260205260409020545f80516020615c148339815191529060ff161580611c5c575b610c3d575081158015611c51575b611ab157818111611ab157816040917fb74975ca8f4263c4575093850056a3c16e6f01a8124f0849528a13ecdf2c026e93600c5580600d5582519182526020820152a1005b50600a548211611c0c565b505f546001600160a01b0316331415611bfe565b346107c95760203660031901126107c9576020611c8e6004356145b9565b6040519015158152f35b346107c9575f3660031901126107c957602060405160088152f35b346107c9575f3660031901126107c95760206040515f80516020615b548339815191528152f35b346107c95760203660031901126107c957335f9081525f80516020615bd48339815191526020526040902054600435905f80516020615c148339815191529060ff161580611d60575b610c3d577f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a73604083600454908060045582519182526020820152a1005b505f546001600160a01b0316331415611d23565b346107c9575f3660031901126107c95760018054906001600160a01b038083163303611ea1575f54908116926001600160601b0360a01b9182339116175f551660015560a0604051611dc581613eeb565b369037604051611dd481613eeb565b5f80516020615c1483398151915281525f80516020615b5483398151915260208201525f80516020615bf483398151915260408201525f80516020615b3483398151915260608201525f80516020615b948339815191526080820152331515905f5b60058110611e665733857f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b8083611e7d87611e77889587614cba565b51615083565b611e88575b01611e36565b611e9c33611e968386614cba565b51614b23565b611e82565b604051630614e5c760e21b8152600490fd5b346107c9575f3660031901126107c95760ff60035416610a1157335f52601b60205260405f20600e810154156109ff57600b81611ef1602093614ccb565b918291611efe30846154bf565b611f0833846154bf565b015560405190337ffe60ee690d9f86c2949aa3bdd9f93e1f55bd17d0499b3437480fd3ebf9e4b9565f80a28152f35b346107c9575f3660031901126107c95760206040515f80516020615c148339815191528152f35b346107c9575f3660031901126107c9575f546001600160a01b03811633819003610aa6576001600160601b0360a01b8092165f556001916001541660015560a0604051611faa81613eeb565b369037604051611fb981613eeb565b5f80516020615c1483398151915281525f80516020615b5483398151915260208201525f80516020615bf483398151915260408201525f80516020615b3483398151915260608201525f80516020615b9483398151915260808201525f5b60058110612047575f837f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08280a3005b8061205784611e77879486614cba565b01612017565b346107c95760203660031901126107c957612076613e98565b6001600160a01b03165f9081527f9891859b5a14a6a70a7905aca276317bd243ea2e53ca1a06ef897cc8e837e33c602090815260409182902054915160ff9092161515825290f35b346107c9576120cc3661411d565b91905f52601360205260405f2080548310156107c957610100926120ef91614133565b50805491600182015491600281015460038201546004830154906005840154926007600686015495015496604051988952602089015260408801526060870152608086015260a085015260c0840152820152f35b346107c95760403660031901126107c95760043561215f613eae565b9060ff60035416610a115761217381614646565b6001600160a01b038316928315610a9457816121e192545f52601360205260405f20906121b0836121aa6001840194855490614133565b50614911565b545f52601560205260405f2090545f5260205260405f2054818161222e575b50506121db33846146aa565b82614ab1565b8133827f0296630eb395d63ab57db13ae4007f337b2e82ce8aba1d08d2e49c2a7eed0d125f80a47f12405371fe3db9ad1158025a881b7f5ae5bbbcd68e02ad62543a322a807143eb5f80a3005b612237916154bf565b84816121cf565b346107c9575f3660031901126107c957602060ff600354166040519015158152f35b346107c95760203660031901126107c9576001600160a01b03612281613e98565b165f526006602052602060405f2054604051908152f35b346107c9575f3660031901126107c957602063ffffffff60105416604051908152f35b346107c9575f3660031901126107c957335f9081527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b9360205260409020545f80516020615b948339815191529060ff161580612350575b610c3d5760035460ff811615610a115760ff1916600355337f5b65b0c1363b3003db9bcc5e1fd8805a6d6bf5bf6dc9d3431ee4494cd7d117665f80a2005b506001612312565b346107c9576020806003193601126107c95760043590608060405161237c81613f35565b3690375f91805f526021825260ff9060ff60405f20541615612455575f5281805260405f206040519081845f915b6004831061243e57505050506123bf81613f35565b60019182805b6123fc575b5050604051925f845b600482106123e95760a08660ff89166080820152f35b83518152928201929084019082016123d3565b818116600481101561243857612412908461424d565b5161241f8388168561424d565b5110612430575b83018116836123c5565b945084612426565b506123ca565b6001918291855481520193019101909185906123aa565b604051631d4a4bb760e31b8152600490fd5b346107c9576124753661411d565b9060ff60035416610a1157805f52601360205260405f20548210156116f457805f52601a60205260405f20825f526020526124b360405f205461449b565b50600301546001600160a01b031633036129c757805f5260136020526124dc8260405f20614133565b5091600483015480156129b3575b5f80516020615b7483398151915254604051635a53accb60e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af19081156107d5575f91612981575b50801561296d575b5f80516020615b74833981519152546040516304559f7160e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af180156107d5575f90612939575b6125af915061539d565b6125bc600185015461539d565b8015612925575b5f80516020615b7483398151915254604051630afe14ad60e31b8152600481019290925260056024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156107d5575f916128f3575b505f80516020615b7483398151915254604051639cd07acb60e01b81526064600482015260036024820152908390602090839060449082905f906001600160a01b03165af19182156107d5575f926128bd575b5092612682915f94156128ad57615adf565b801561289b575b5f80516020615b7483398151915254604051630afe14ad60e31b8152600481019290925260036024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af19182156107d5575f92612863575b5093612709600661270f6126fc612717955f99615591565b612709600586015461539d565b90615591565b92015461539d565b8015612851575b5f80516020615b74833981519152546040516385362ee760e01b815260048101929092526101f46024830152600160f81b6044830152909360209185916064918391906001600160a01b03165af19182156107d5575f9261281c575b6020935061278830846154bf565b61279233846154bf565b805f526015845260405f20825f5284528260405f205560405181815282858201527f30dfaea5e0b8460c95311a2cdd49d05d0fc24a28cb0d2ef63c6e62f02fcd1c5f60403392a25f52601a835260405f20905f52825260405f2054906040519133907f12405371fe3db9ad1158025a881b7f5ae5bbbcd68e02ad62543a322a807143eb5f80a38152f35b91506020833d602011612849575b8161283760209383613f50565b810103126107c957602092519161277a565b3d915061282a565b50602061285c6158f8565b905061271e565b9150936020823d602011612893575b8161287f60209383613f50565b810103126107c957905190936127096126e4565b3d9150612872565b5060206128a66158f8565b9050612689565b90506128b76158f8565b90615adf565b9150926020823d6020116128eb575b816128d960209383613f50565b810103126107c957905190925f612670565b3d91506128cc565b90506020813d60201161291d575b8161290e60209383613f50565b810103126107c957518561261d565b3d9150612901565b505f60206129316158f8565b9150506125c3565b506020813d602011612965575b8161295360209383613f50565b810103126107c9576125af90516125a5565b3d9150612946565b505f6020612979615800565b91505061254c565b90506020813d6020116129ab575b8161299c60209383613f50565b810103126107c9575184612544565b3d915061298f565b505f60206129bf615800565b9150506124ea565b604051631a30fced60e21b8152600490fd5b346107c95760603660031901126107c9576001600160a01b036129fa613e98565b165f52601860205260405f20612a166044356024358354614b9a565b90612a2461172d8284614481565b92815b838110612a3c576040518061174a8782614041565b80612a77612a5b612a4f600194866145a4565b90549060031b1c614bcd565b612a658684614481565b90612a70828a61425e565b528761425e565b5001612a27565b346107c9575f3660031901126107c9576020600a54604051908152f35b346107c95760203660031901126107c9576004355f526012602052602060405f2054604051908152f35b346107c95760403660031901126107c957612ade613eae565b335f9081525f80516020615bd483398151915260205260409020545f80516020615c148339815191529060ff161580612b22575b610c3d57611a1e82600435614b23565b505f546001600160a01b0316331415612b12565b346107c9575f3660031901126107c9576020600c54604051908152f35b346107c95760203660031901126107c95760ff612b6e614001565b6080604051612b7c81613f35565b369037165f52601e60205261174a60405f2060ff60405191548181168352818160081c166020840152818160101c16604084015260181c166060820152612bc281613f35565b60405191829182614011565b346107c9575f3660031901126107c95760206040515f80516020615bf48339815191528152f35b346107c95760403660031901126107c9576001600160401b036024358181116107c957612c26903690600401613fd4565b60ff60035416610a1157612c4791612c3f913691613f71565b60043561519b565b335f52601b60205260405f2060405192610120840190848210908211176112f557604052600883526101003660208501375f5b60ff81166008811015612ca95781600191612ca1612c9a60ff95886149f8565b918861425e565b520116612c7a565b8483600e810154151591825f93613019575b91612cc4615852565b915f935f945b600460ff87161015612fcf57612cde615852565b5f905b60ff82166008811015612d4e57612cf8818761425e565b51905f52601e60205260405f2060048a1015612d3a5760ff9260019261072c858d60f8612d31968260051c01549160031b161c166158a5565b92011690612ce1565b634e487b7160e01b5f52603260045260245ffd5b505f929691509694968015612fbd575b602090606460018060a01b035f80516020615b748339815191525416916040519586938492630afe14ad60e31b8452600484015260046024840152600160f81b60448401525af180156107d55783925f91612f88575b508092612edd575b5060ff851615612ed057612ded90612de187848515612ec2575b8915612eb257615a8b565b61072c60ff88166158a5565b94808215612ea2575b15612e90575b602090606460018060a01b035f80516020615b748339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af19081156107d5575f91612e5d575b50600160ff91945b01169492612cca565b90506020813d602011612e88575b81612e7860209383613f50565b810103126107c957516001612e4c565b3d9150612e6b565b506020612e9b615852565b9050612dfc565b9150612eac615852565b91612df6565b9050612ebc615852565b90615a8b565b50612ecb615852565b612dd6565b9450600160ff9194612e54565b909150612eea85896149f8565b905f602060018060a01b035f80516020615b748339815191525416604460405180948193639cd07acb60e01b835260056004840152600260248401525af19081156107d5575f91612f54575b50612f4d9261054491612f47615852565b91615a39565b9088612dbc565b90506020813d602011612f80575b81612f6f60209383613f50565b810103126107c95751612f4d612f36565b3d9150612f62565b9250506020823d602011612fb5575b81612fa460209383613f50565b810103126107c95782915189612db4565b3d9150612f97565b506020612fc8615852565b9050612d5e565b60208580600d87612fe030846154bf565b612fea33846154bf565b015560405190337f415e23c4c7a283a28485f243419d5ca18fe0ad73ded48da807700dfe22eb87d75f80a28152f35b925061302482614ccb565b92612cbb565b346107c9575f3660031901126107c9575f546001600160a01b0390811633819003610aa657600154918216918215611ea1576001600160a01b0319166001557fe83a760af9d3c86797ea13c8979010086f067cfe3c985b2d03d951248600c50f5f80a3005b346107c9576101203660031901126107c9576024610104356001600160401b0381116107c9576130c3903690600401613fd4565b335f9081527f9891859b5a14a6a70a7905aca276317bd243ea2e53ca1a06ef897cc8e837e33c6020526040902054919290915f80516020615bf48339815191529060ff161580613794575b613777575060ff60035416610a1157335f52600560205261313660405f20546004549061448e565b421061149757613144614870565b60075480158015613761575b61374f57805f52601360205261010060405f2054101561373d575f52601360205260405f20805490600160401b82101561372a578161319791600161327a94018155614133565b50936131a7612c3f368684613f71565b855561326561325d6131c46131bd368886613f71565b863561519b565b92600188019384556131e26131da368984613f71565b60443561519b565b60028901556131fd6131f5368984613f71565b606435615299565b6003890155613218613210368984613f71565b608435615299565b600489015561323361322b368984613f71565b60a43561519b565b600589015561324e613246368984613f71565b60c43561519b565b96600689019788553691613f71565b60e43561519b565b60078601556132743386614911565b5461534e565b916040519161328883613f35565b60803684375f5b60ff811660048110156132bf57816001916132b76132b060ff958b546149f8565b918861424d565b52011661328f565b505093929190335f52601b60205260405f20925f9560048501965b60ff811660048110156133d557816133718261333461336b61335d858f8e6133568f848f6133409260ff9f60019f9261332a61333a9461331d613334948b614aa2565b90549060031b1c9461424d565b5190612f47615800565b906150f6565b93614aa2565b819391549060031b91821b915f19901b19161790565b9055614aa2565b90549060031b1c928b61424d565b5161534e565b61337e613340838d614aa2565b905561339a61338d828a614aa2565b3091549060031b1c6154bf565b6133b46133a7828a614aa2565b3391549060031b1c6154bf565b6133c161338d828c614aa2565b6133ce6133a7828c614aa2565b01166132da565b828487600e8a6134548d6134328c613427600886016133fc8154613334600588015461534e565b815561341260098801936133348554915461534e565b835561341f3082546154bf565b3390546154bf565b61341f3082546154bf565b61341f61344a600a85019260048454910154906150f6565b80835530906154bf565b0161345f81546144d4565b90556007545f52601660205260405f20915f5b60ff811660048110156134d357816134b06001926133346134a661349860ff978b614aa2565b90549060031b1c928961424d565b5187612f47615800565b6134bd6133408389614aa2565b90556134cc61338d8288614aa2565b0116613472565b85600754805f52601360205260405f2054905f1990818301928311613717575f52601460205260405f20825f5260205260405f20926001600160601b0360a01b933385825416179055601754936007545f52601a60205260405f20845f526020528460405f2055600754946040519561354b87613eeb565b86526020860191858352604087019033825260608801915f83526080890193428552600160401b81101561370457806001613589920160175561449b565b9590956136f257600495969798995187555160018701556002860160018060a01b0380925116838254161790556003860192511690825416179055519101556017548281019081116136de576135e0903390614ab1565b6017549182019182116136cb575060075490604051908282528360208301527f1dc8c7b5cb44231708d5c6387e0876c176f5e028ae94832d43e09ae412ad269660403393a3805f52600f60205260405f20335f5260205260ff60405f2054161561368b575b50335f5260056020524260405f20556007549060405191825260208201527fdc50c55fcf8abafff2aae453e3bc793f6b7a838bb35c5bb839fbece9157cdf9f60403392a2005b5f52600f60205260405f20335f5260205260405f20600160ff198254161790556007545f52600e60205260405f206136c381546144d4565b905581613645565b634e487b7160e01b5f9081526011600452fd5b50634e487b7160e01b5f9081526011600452fd5b86634e487b7160e01b5f525f6004525ffd5b86634e487b7160e01b5f5260416004525ffd5b83634e487b7160e01b5f5260116004525ffd5b82634e487b7160e01b5f5260416004525ffd5b6040516314004c9b60e11b8152600490fd5b604051631e4f783760e11b8152600490fd5b50805f52600860205260ff60405f205416613150565b604491604051916301d4003760e61b835260048301523390820152fd5b50600161310e565b346107c957600319906020368301126107c957600435906001600160401b0382116107c957816004019282360301126107c957335f9081527f71baccaceb0ab224a6569a8ca1234dd3c8057e955fb474cb09ed33a62e08f87960205260409020545f80516020615b348339815191529060ff161580613899575b610c3d575060c46138309161382a8461476d565b01614272565b61388c575b601c5490600160401b8210156112f557610b838260016138589401601c5561414c565b601c545f198101908111611651577f24af3f97ebed975f8d397fb5ca5f6c5ded343956d0a4aabd7ae32c77c52874e75f80a2005b613894614844565b613835565b506001613816565b346107c9576003196060368201126107c957600435906001600160401b03906024358281116107c9576138d8903690600401613fb6565b916044359081116107c9576138f1903690600401613fb6565b91835f526020601f815260019160ff8360405f20015416613c4257855f52601f825260405f20947f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180845260405f205415613c3057875f52835260405f206040518082868294549384815201905f52865f20925f5b8989838310613c1b575050505061397f92500382613f50565b8251958685019687861161165157604001809711611651578491604051808651998588019a8b818885016139b2926141bc565b820190868201520384810182526040016139cc9082613f50565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546040516378542ead60e01b8152606060048201529586946001600160a01b03909216938593849391613a24906064860190615168565b82858203016024860152613a37916141dd565b90838203016044840152613a4a916141dd565b03915a905f91f19081156107d5575f91613be5575b5015613bd357857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a280518101906080818484019303126107c95781603f820112156107c95760405194613ab486613f35565b60a08692019283116107c957905b828210613bc4575050509060405193613ada85613eeb565b600485528285019360803686375f5b60048110613ba157508282019060ff1991848382541617905582545f5284805260405f20905f5b60048110613b905750505081545f52602184528260405f2091825416179055546040519460408601918652604084870152518091526060850193925f5b828110613b7d57877fcbcf7d655fb909fb73ec099d51f91c26162738b716639fb62dbf42e4322fe43188880389a2005b8451865294810194938101938301613b4d565b815183820155908601908501613b10565b9283613baf8296958461424d565b51613bba828a61425e565b5201939293613ae9565b81518152908301908301613ac2565b60405163cf6c44e960e01b8152600490fd5b90508281813d8311613c14575b613bfc8183613f50565b810103126107c9575180151581036107c95787613a5f565b503d613bf2565b86548552958101958795509093019201613966565b60405163d66ca67560e01b8152600490fd5b60405163dbde098160e01b8152600490fd5b346107c95760203660031901126107c9576004355f526021602052602060ff60405f2054166040519015158152f35b346107c9575f3660031901126107c9576020601154604051908152f35b346107c95760203660031901126107c957613cb9613e98565b6080604051613cc781613f35565b3690376080604051613cd881613f35565b36903760018060a01b03165f52601b60205261016060405f2060088101546009820154600e83015491613d30613d196004613d1287614202565b9601614202565b613d266040518097613ec4565b6080860190613ec4565b610100840152610120830152610140820152f35b346107c9575f3660031901126107c95760206040515f80516020615b348339815191528152f35b346107c9575f3660031901126107c9576020600754604051908152f35b346107c95760203660031901126107c95760043560ff60035416610a115780613db15f92614646565b50613dbc33826146aa565b33817f7d14a037f6460104a7e358ca6256314e3b495e7d360a781b444e183be65c18b28480a37f12405371fe3db9ad1158025a881b7f5ae5bbbcd68e02ad62543a322a807143eb8280a3005b346107c9575f3660031901126107c957335f9081527fa9fc55014f5d7cb0915e5ed13e09bb279229db48b5282f72b9cd9d6824cbc86b60205260409020545f80516020615b54833981519152919060ff161580613e90575b613e765760ff60035416610a1157611a1e6145e5565b6044916301d4003760e61b82526004820152336024820152fd5b506001613e60565b600435906001600160a01b03821682036107c957565b602435906001600160a01b03821682036107c957565b5f915b60048310613ed457505050565b600190825181526020809101920192019190613ec7565b60a081019081106001600160401b038211176112f557604052565b6001600160401b0381116112f557604052565b61010081019081106001600160401b038211176112f557604052565b608081019081106001600160401b038211176112f557604052565b90601f801991011681019081106001600160401b038211176112f557604052565b9291926001600160401b0382116112f55760405191613f9a601f8201601f191660200184613f50565b8294818452818301116107c9578281602093845f960137010152565b9080601f830112156107c957816020613fd193359101613f71565b90565b9181601f840112156107c9578235916001600160401b0383116107c957602083818601950101116107c957565b6004359060ff821682036107c957565b6080810192915f915b6004831061402757505050565b60019060ff8351168152602080910192019201919061401a565b60208082019080835283518092528060408094019401925f905b83821061406a57505050505090565b845180518752808401518785015280820151878301526060808201516001600160a01b03908116828a0152608080840151909116818a015260a080840151818b015260c0808501518051828d01528089015160e0808e0191909152818801516101008e0152948101516101208d0152928301516101408c0152908201516101608b01528101516101808a01528101516101a089015201516101c08701526101e0909501949382019360019091019061405b565b60409060031901126107c9576004359060243590565b8054821015612d3a575f5260205f209060031b01905f90565b601c54811015612d3a57601c5f5260011b7f0e4562a10381dec21b205ed72637e6b1b523bdd0e4d4d50af5cd23dd4500a21101905f90565b90600182811c921680156141b2575b602083101461419e57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691614193565b5f5b8381106141cd5750505f910152565b81810151838201526020016141be565b906020916141f6815180928185528580860191016141bc565b601f01601f1916010190565b60405191905f835b600482106142205750505061421e82613f35565b565b600160208192855481520193019101909161420a565b6001600160401b0381116112f55760051b60200190565b906004811015612d3a5760051b0190565b8051821015612d3a5760209160051b010190565b3580151581036107c95790565b903590601e19813603018212156107c957018035906001600160401b0382116107c9576020019181360383136107c957565b3560ff811681036107c95790565b9061446e576142ce828061427f565b906001600160401b0382116112f5576142e78354614184565b601f8111614429575b505f90601f83116001146143bf5760019392915f91836143b4575b50505f19600383901b1c191690831b1781555b019060ff61432e602083016142b1565b169082549161ff00614342604084016142b1565b60081b1662ff0000614356606085016142b1565b60101b169063ff00000061436c608086016142b1565b60181b169265ff000000000061439a60c064ff0000000061438f60a08a016142b1565b60201b169701614272565b151560281b169565ffffffffffff19161717171717179055565b013590505f8061430b565b5f84815260208082209391601f198616915b8282106144115750509160019594929183879593106143f8575b505050811b01815561431e565b01355f19600384901b60f8161c191690555f80806143eb565b806001859782949688013581550196019301906143d1565b835f5260205f20601f840160051c81019160208510614464575b601f0160051c01905b81811061445957506142f0565b5f815560010161444c565b9091508190614443565b634e487b7160e01b5f525f60045260245ffd5b9190820391821161165157565b9190820180921161165157565b601754811015612d3a5760059060175f52027fc624b66cc0138b8fabc209247f72d758e1cf3343756d543badbf24212bed8c1501905f90565b5f1981146116515760010190565b604051906144ef82613f19565b5f60e0838281528260208201528260408201528260608201528260808201528260a082015260405161452081613f19565b8381528360208201528360408201528360608201528360808201528360a08201528360c0820152838382015260c08201520152565b9061455f82614236565b61456c6040519182613f50565b828152809261457d601f1991614236565b01905f5b82811061458d57505050565b6020906145986144e2565b82828501015201614581565b8054821015612d3a575f5260205f2001905f90565b5f52601360205260405f2054600c541115806145d25790565b50600e60205260405f2054600d54111590565b6145f06007546144d4565b806007555f52600860205260405f2060ff1981541690556007545f5260096020524260405f20557fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee26020600754604051908152a1565b601754811080159061468c575b61467a576146609061449b565b5060038101549091906001600160a01b031633036129c757565b60405163f2a3e8db60e01b8152600490fd5b506146968161449b565b50600301546001600160a01b031615614653565b9060018060a01b03165f52601860205260405f2090805f52601960205260405f2054908254915f1992838101908111611651576146e790856145a4565b90549060031b1c806146fc61334084886145a4565b90555f52601960205260405f20558254918215614759576003938161474794019161472783836145a4565b9091825491881b1b1916905555805f5260196020525f604081205561449b565b500180546001600160a01b0319169055565b634e487b7160e01b5f52603160045260245ffd5b614777818061427f565b90501590811561482a575b8115614812575b81156147f8575b81156147e0575b81156147c6575b81156147ac575b50610c2b57565b600391506147be60a060ff92016142b1565b16115f6147a5565b9050600a60ff6147d8608084016142b1565b16119061479e565b905060ff6147f0608083016142b1565b161590614797565b9050600a60ff61480a606084016142b1565b161190614790565b905060ff614822606083016142b1565b161590614789565b9050600360ff61483c602084016142b1565b161190614782565b601d54600881101561485e57614859906144d4565b601d55565b604051639d67fb5560e01b8152600490fd5b600754801580156148fb575b6148c257805f52601360205260405f2054600a5411600b5480151590816148de575b50816148d5575b5080156148c5575b6148c2576148ba90615125565b61421e6145e5565b50565b506148cf816145b9565b156148ad565b9050155f6148a5565b6148f29150600960205260405f205461448e565b4210155f61489e565b50805f52600860205260ff60405f20541661487c565b80543061491d916154bf565b81600182013081549061492f916154bf565b816002840130815490614941916154bf565b816003860130815490614953916154bf565b81600488019130835490614966916154bf565b8160058a019530875490614979916154bf565b8160068c0199818d308d549061498e916154bf565b6007019d8e309054906149a0916154bf565b54906149ab916154bf565b54906149b6916154bf565b54906149c1916154bf565b54906149cc916154bf565b54906149d7916154bf565b54906149e2916154bf565b54906149ed916154bf565b549061421e916154bf565b60ff916020918015614a90575b5f80516020615b748339815191525460405163f77f3f1d60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156107d5575f91614a61575090565b90506020813d602011614a88575b81614a7c60209383613f50565b810103126107c9575190565b3d9150614a6f565b506064614a9b615852565b9050614a05565b6004821015612d3a5701905f90565b906003614abd8361449b565b500180546001600160a01b0319166001600160a01b0390921691821790555f818152601860208181526040808420805487865260198452918520829055949093525290600160401b8210156112f55781613340916001614b1f940181556145a4565b9055565b90815f52600260205260405f209060018060a01b031690815f5260205260ff60405f20541615614b51575050565b815f52600260205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4565b90929181841015614bc65783614bb08184614481565b821115614bbc57505090565b613fd1925061448e565b5091508190565b614bd56144e2565b50614bdf8161449b565b508054906007600182015460018060a01b03926004846002830154169460038301541691015490855f526013602052604094614c1d84875f20614133565b5093875f526015602052865f20815f52602052865f205497875199614c418b613f19565b8a5260208a0152868901526060880152608087015260a0860152825192614c6784613f19565b81548452600182015460208501526002820154908401526003810154606084015260048101546080840152600581015460a0840152600681015460c0840152015460e082015260c083015260e082015290565b906005811015612d3a5760051b0190565b90614cd4615852565b91614cdf8154615443565b92614ced6004830154615443565b6001945b600460ff8716101561507b5790614d1e9291614d36614d108887614aa2565b959054600396871b1c615443565b94614d2c8960048901614aa2565b9054911b1c615443565b90614d61614d4484876155ba565b614d4e84846155ba565b90801561506d575b811561506357615a8b565b9383841561504f575b5f80516020615b748339815191525460405163f77f3f1d60e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af19081156107d5575f9161501d575b50838415615009575b5f80516020615b74833981519152546040516385362ee760e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af19081156107d5575f91614fd7575b50808215614fc7575b15614fb5575b602090606460018060a01b035f80516020615b748339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af19081156107d5575f91614f83575b50808615614f73575b15614f61575b602090606460018060a01b035f80516020615b748339815191525416975f604051998a9485936363a2db2960e01b8552600485015260248401528160448401525af19485156107d55789905f96614f21575b5092614f11614f1793614f0a60ff9794614f0489600199166158a5565b8a615a39565b9888615a39565b95615a39565b9601169490614cf1565b9293955050926020823d602011614f59575b81614f4060209383613f50565b810103126107c957905193909290919088614f11614ee7565b3d9150614f33565b506020614f6c6159ed565b9050614e95565b9550614f7d6159ed565b95614e8f565b90506020813d602011614fad575b81614f9e60209383613f50565b810103126107c957515f614e86565b3d9150614f91565b506020614fc06159ed565b9050614e36565b9150614fd16159ed565b91614e30565b90506020813d602011615001575b81614ff260209383613f50565b810103126107c957515f614e27565b3d9150614fe5565b505f602061501561599a565b915050614dcd565b90506020813d602011615047575b8161503860209383613f50565b810103126107c957515f614dc4565b3d915061502b565b505f602061505b61599a565b915050614d6a565b9050612ebc61599a565b5061507661599a565b614d56565b509093505050565b90815f52600260205260405f209060018060a01b031690815f5260205260ff60405f2054166150b0575050565b815f52600260205260405f20815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b90613fd1918015615117575b8161563e579050615111615800565b9061563e565b50615120615800565b615102565b60207f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d350858791805f526008825260405f20600160ff19825416179055604051908152a1565b9081518082526020808093019301915f5b828110615187575050505090565b835185529381019392810192600101615179565b5f80516020615b748339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f9082906151f39060848301906141dd565b6002606483015203925af19081156107d5575f91615267575b5080925f80516020615bb48339815191525416803b156107c957604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af180156107d55761525e5750565b61421e90613f06565b90506020813d602011615291575b8161528260209383613f50565b810103126107c957515f61520c565b3d9150615275565b5f80516020615b748339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f9082906152f19060848301906141dd565b6004606483015203925af19081156107d5575f91615267575080925f80516020615bb48339815191525416803b156107c957604051630f8e573b60e21b815260048101929092523360248301525f9082908183816044810161524d565b60205f91604460018060a01b035f80516020615b7483398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af19081156107d5575f91614a61575090565b5f80516020615b74833981519152546040516307227b9160e21b8152600481019290925260036024830152602090829060449082905f906001600160a01b03165af19081156107d5575f91614a61575090565b5f80516020615b74833981519152546040516307227b9160e21b8152600481019290925260026024830152602090829060449082905f906001600160a01b03165af19081156107d5575f91614a61575090565b5f80516020615b74833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156107d5575f91614a61575090565b90613fd19180156154b1575b8161563e579050615111615852565b506154ba615852565b6154a2565b5f80516020615bb4833981519152546001600160a01b031691823b156107c957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f9082908183816044810161524d565b63ffffffff91602091801561557f575b5f80516020615b7483398151915254604051635a53accb60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156107d5575f91614a61575090565b50606461558a615800565b9050615523565b90613fd19180156155ac575b8161563e5790506151116158f8565b506155b56158f8565b61559d565b90811561562e575b801561561c575b602090606460018060a01b035f80516020615b748339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156107d5575f91614a61575090565b50602061562761599a565b90506155c9565b905061563861599a565b906155c2565b90602090606460018060a01b035f80516020615b748339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156107d5575f91614a61575090565b9081821592836157eb575b60ff5f9293169060018060a01b03935f80516020615b74833981519152948086541690604051926385362ee760e01b84526004840152846024840152600160f81b91826044850152836064816020998a945af19687156107d55788935f986157b4575b5090869291859461579e575b906064915416935f60405195869485936303056db360e31b8552600485015289602485015260448401525af19384156107d5575f9461576a575b505090613fd19461575a612f4793926158a5565b9015615adf5790506128b7615852565b908093929450813d8311615797575b6157838183613f50565b810103126107c9579051918461575a615746565b503d615779565b93506064906157ab615852565b9490915061570c565b878092995081949395503d83116157e4575b6157d08183613f50565b810103126107c95790519587929086615700565b503d6157c6565b5f915060ff6157f8615852565b92505061569d565b5f80516020615b7483398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156107d5575f91614a61575090565b5f80516020615b7483398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af19081156107d5575f91614a61575090565b5f80516020615b7483398151915254604051639cd07acb60e01b8152600481019290925260026024830152602090829060449082905f906001600160a01b03165af19081156107d5575f91614a61575090565b5f80516020615b7483398151915254604051639cd07acb60e01b81525f60048201819052600360248301529091602091839160449183916001600160a01b03165af19081156107d5575f91614a61575090565b60205f91604460018060a01b035f80516020615b748339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af19081156107d5575f91614a61575090565b5f80516020615b7483398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156107d5575f91614a61575090565b5f602060018060a01b035f80516020615b748339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af19081156107d5575f91614a61575090565b9060646020925f60018060a01b035f80516020615b7483398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156107d5575f91614a61575090565b90602090606460018060a01b035f80516020615b748339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af19081156107d5575f91614a61575090565b90602090606460018060a01b035f80516020615b748339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156107d5575f91614a6157509056fe529e097f2fa8f465ce7c9d351b2768dab8483b79629792f97c711a09503511e352e466598c5e4408cbbaf840ea4dbd39f3e0aa1ba17a69b571858fba5698291f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970165d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700e5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc518d9ff454de989bd126b06bd404b47ede75f9e65543e94e8d212f89d7dcbb87ca49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c6343000818000a07adbe24829c43adcee612c583686a85c5e57dd609aa43b8dba3c6d34e5a0681";
+
+type AISommelierFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AISommelierFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AISommelierFHE__factory extends ContractFactory {
+  constructor(...args: AISommelierFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AISommelierFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AISommelierFHE__factory {
+    return super.connect(runner) as AISommelierFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AISommelierFHEInterface {
+    return new Interface(_abi) as AISommelierFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AISommelierFHE {
+    return new Contract(address, _abi, runner) as unknown as AISommelierFHE;
+  }
+}